@@ -15,7 +15,15 @@ const eslintConfig = [
     rules: {
       "@typescript-eslint/no-unused-vars": "off",
       "@typescript-eslint/no-explicit-any": "off",
-      "react-hooks/exhaustive-deps": "off"
+      "react-hooks/exhaustive-deps": "off",
+      // Logs passam por utils/log, que oculta dados sensíveis (SECURITY_LOGGING.md)
+      "no-console": "error"
+    }
+  },
+  {
+    files: ["src/app/utils/log.ts"],
+    rules: {
+      "no-console": "off"
     }
   }
 ];
@@ -1,9 +1,21 @@
 "use client";
 import { useState } from "react";
-import { apiRequest, API_CONFIG } from "@/app/utils/api";
+import { criarAdminDedicado } from "@/app/utils/api";
+import type { CriarAdminRequest } from "@/app/utils/contrato";
+import { ehErroApi, mensagemDeErro } from "@/app/utils/erros";
+import RequirePermission from "@/app/components/RequirePermission";
 import bcrypt from "bcryptjs";
 
+// Sessão conferida pelo admin/layout; aqui só a permissão de criar admins (o backend confere de novo no envio)
 export default function CriarAdminPage() {
+  return (
+    <RequirePermission permissao="admins.criar">
+      <CriarAdminForm />
+    </RequirePermission>
+  );
+}
+
+function CriarAdminForm() {
   const [form, setForm] = useState({ nome: "", email: "", password: "", tel: "" });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
@@ -21,53 +33,26 @@ export default function CriarAdminPage() {
     setError("");
     setSuccess("");
     try {
-      // Verifica token presente e não expirado
-      const rawToken = typeof window !== 'undefined' ? (localStorage.getItem('token') || localStorage.getItem('authToken') || '') : '';
-      const isExpired = (() => {
-        if (!rawToken) return true;
-        const parts = rawToken.split('.');
-        if (parts.length < 2) return false;
-        try {
-          const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
-          const exp = Number(payload?.exp);
-          if (!exp) return false;
-          const now = Math.floor(Date.now() / 1000);
-          return exp <= now;
-        } catch {
-          return false;
-        }
-      })();
-      if (!rawToken) {
-        setError('Não autenticado. Faça login como admin.');
-        return;
-      }
-      if (isExpired) {
-        setError('Sessão expirada. Faça login novamente como admin.');
-        return;
-      }
       const hashed = await bcrypt.hash(form.password, 10);
       // Envie somente o que o backend precisa; o restante é forçado no servidor
-      const payload = {
+      const payload: CriarAdminRequest = {
         nome_completo: form.nome,
         username: form.email,
         email: form.email,
         tel: form.tel,
         password: hashed,
       };
-      const token = rawToken;
-      const res = await apiRequest('/api/admins', { method: 'POST', body: JSON.stringify(payload), skipAuth: true, headers: token ? { Authorization: `Bearer ${token}`, 'x-access-token': token } : undefined });
-      const ok = res?.success === true || !!res?.usuario || !!res?.user || !!res?.id || !!res?._id || !!res?.admin;
-      if (ok) {
+      const resposta = await criarAdminDedicado(payload);
+      if (resposta.success) {
         setSuccess("Administrador criado com sucesso!");
         setForm({ nome: "", email: "", password: "", tel: "" });
       } else {
-        setError(res?.message || "Erro ao criar administrador.");
+        setError(resposta.message || "Erro ao criar administrador.");
       }
-    } catch (err: any) {
-      const status = err?.status;
-      if (status === 401) setError('Não autenticado. Faça login como admin.');
-      else if (status === 403) setError('Permissão negada. Apenas administradores podem criar outros admins.');
-      else setError(err?.data?.message || err?.message || "Erro ao criar administrador.");
+    } catch (err) {
+      if (ehErroApi(err, 'nao_autenticado')) setError('Não autenticado. Faça login como admin.');
+      else if (ehErroApi(err, 'sem_permissao')) setError('Permissão negada. Apenas administradores podem criar outros admins.');
+      else setError(mensagemDeErro(err, "Erro ao criar administrador."));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,120 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useAuth } from "@/app/hooks/useAuth";
+import { verificarSessao } from "@/app/utils/api";
+import { ehErroApi } from "@/app/utils/erros";
+import { temPermissao } from "@/app/utils/permissoes";
+import { tokenExpirado } from "@/app/utils/sessao";
+
+/**
+ * Guarda de todas as páginas /admin (menos o login): confere a sessão e o papel no
+ * backend ao abrir, manda para o login quem não está autenticado e avisa quando a
+ * sessão expira no meio do trabalho. As páginas filhas não precisam checar nada disso;
+ * permissões específicas (ex.: criar admins) ficam no <RequirePermission>.
+ */
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  if (pathname?.replace(/\/$/, '') === '/admin/login') return <>{children}</>;
+  return <GuardaAdmin>{children}</GuardaAdmin>;
+}
+
+type Verificacao = 'verificando' | 'liberado' | 'sem_permissao' | 'falhou';
+
+function GuardaAdmin({ children }: { children: React.ReactNode }) {
+  const { user, token, pronto, expirada, iniciarSessao, logout } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const [verificacao, setVerificacao] = useState<Verificacao>('verificando');
+  const [tentativa, setTentativa] = useState(0);
+  const [confirmado, setConfirmado] = useState<string | null>(null); // id do usuário que o backend confirmou
+
+  const irParaLogin = useCallback((motivo?: 'expirada') => {
+    const params = new URLSearchParams({ voltar: pathname || '/admin' });
+    if (motivo) params.set('motivo', motivo);
+    router.replace(`/admin/login?${params}`);
+  }, [pathname, router]);
+
+  // Roda ao ler a sessão e a cada troca de token (login ou logout, inclusive em outra aba)
+  useEffect(() => {
+    if (!pronto) return;
+    if (!user || !token) return irParaLogin();
+    if (tokenExpirado(token)) return irParaLogin('expirada');
+
+    // Só a primeira verificação mostra o carregando: depois de um novo login a tela (e o que está nela) fica
+    let cancelado = false;
+    verificarSessao(user)
+      .then((atual) => {
+        if (cancelado) return;
+        iniciarSessao({ usuario: atual, token }); // papéis como estão hoje no backend
+        setConfirmado(atual.id);
+        setVerificacao(temPermissao(atual.papeis, 'painel.acessar') ? 'liberado' : 'sem_permissao');
+      })
+      .catch((error) => {
+        if (cancelado) return;
+        if (ehErroApi(error, 'nao_autenticado')) return irParaLogin('expirada');
+        if (ehErroApi(error, 'sem_permissao')) return setVerificacao('sem_permissao');
+        // Backend fora do ar ou acordando: os papéis do localStorage não bastam para abrir o painel
+        setVerificacao('falhou');
+      });
+    return () => {
+      cancelado = true;
+    };
+  }, [pronto, token, tentativa]);
+
+  const tentarDeNovo = () => {
+    setVerificacao('verificando');
+    setTentativa((n) => n + 1);
+  };
+
+  // Outra conta entrou (ex.: em outra aba): nada do painel aparece até o backend confirmar essa também
+  const aguardando = verificacao === 'verificando' || (verificacao === 'liberado' && confirmado !== user?.id);
+  if (!pronto || !user || aguardando) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-600">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mr-3"></div>
+        Verificando sua sessão...
+      </div>
+    );
+  }
+
+  if (verificacao === 'falhou') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-gray-700">
+        <p>Não foi possível verificar a sessão. Confira sua conexão e tente de novo.</p>
+        <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700" onClick={tentarDeNovo}>
+          Tentar de novo
+        </button>
+      </div>
+    );
+  }
+
+  if (verificacao === 'sem_permissao') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-gray-700">
+        <p>Sua conta não tem acesso ao painel da barbearia.</p>
+        <button className="px-4 py-2 border rounded hover:bg-gray-50" onClick={logout}>
+          Entrar com outra conta
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {expirada && (
+        <div role="alert" className="sticky top-0 z-[10000] bg-red-600 text-white text-sm px-4 py-2 flex flex-wrap items-center justify-center gap-3">
+          <span>Sua sessão expirou. Entre de novo para salvar alterações; o que está na tela continua aqui.</span>
+          <button
+            className="px-3 py-1 rounded bg-white text-red-700 font-semibold"
+            // Em outra aba para não perder o trabalho; o novo login chega aqui pelo AuthProvider
+            onClick={() => window.open('/admin/login?motivo=expirada', '_blank')}
+          >
+            Entrar de novo
+          </button>
+        </div>
+      )}
+      {children}
+    </>
+  );
+}
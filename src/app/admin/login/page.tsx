@@ -0,0 +1,104 @@
+"use client";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { loginAdmin } from "@/app/utils/api";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { criarLogger } from "@/app/utils/log";
+import { useAuth } from "@/app/hooks/useAuth";
+import { temPermissao } from "@/app/utils/permissoes";
+
+const log = criarLogger('admin');
+
+function AdminLogin() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const { iniciarSessao, pronto, user, expirada, pode } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Só volta para páginas do painel (evita redirecionar para fora do site)
+  const voltar = searchParams.get('voltar');
+  const destino = voltar?.startsWith('/admin') && !voltar.startsWith('/admin/login') ? voltar : '/admin';
+
+  // Já logado com acesso ao painel: segue direto
+  useEffect(() => {
+    if (pronto && user && !expirada && pode('painel.acessar')) router.replace(destino);
+  }, [pronto, user, expirada]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    try {
+      const { usuario, token } = await loginAdmin({ email, password });
+      const liberado = temPermissao(usuario.papeis, 'painel.acessar');
+      log.debug('🔐 Acesso ao painel:', liberado ? 'Autorizado' : 'Negado');
+      // Considera sucesso pelo status 200 (loginAdmin já lança erro para não-200)
+      if (liberado) {
+        // Abas do painel abertas com a sessão expirada recebem o novo login pelo AuthProvider
+        iniciarSessao({ usuario, token });
+        router.replace(destino);
+      } else {
+        setError("Acesso negado. Apenas a equipe da barbearia pode entrar.");
+      }
+    } catch (error) {
+      setError(mensagemDeErro(error, "Erro ao autenticar."));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white p-8 rounded shadow max-w-md w-full"
+      >
+        <h2 className="text-2xl font-bold mb-6 text-center">Login Admin</h2>
+        {searchParams.get('motivo') === 'expirada' && !error && (
+          <div className="mb-4 text-gray-700 text-center">Sua sessão expirou. Entre de novo para continuar.</div>
+        )}
+        {error && (
+          <div className="mb-4 text-red-600 text-center">{error}</div>
+        )}
+        <div className="mb-4">
+          <label className="block mb-2 font-medium">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="w-full px-3 py-2 border rounded"
+          />
+        </div>
+        <div className="mb-6">
+          <label className="block mb-2 font-medium">Senha</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            className="w-full px-3 py-2 border rounded"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-600 text-white py-2 rounded font-bold hover:bg-blue-700 transition"
+        >
+          {loading ? "Entrando..." : "Entrar"}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// Para onde o admin/layout manda quem não tem sessão (com `voltar` e, se for o caso, `motivo=expirada`)
+export default function AdminLoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <AdminLogin />
+    </Suspense>
+  );
+}
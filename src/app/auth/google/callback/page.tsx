@@ -1,13 +1,19 @@
 "use client";
 import { useEffect, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { apiRequest, API_CONFIG } from '@/app/utils/api';
+import { googleCallback } from '@/app/utils/api';
+import { mensagemDeErro } from '@/app/utils/erros';
+import { useAuth } from '@/app/hooks/useAuth';
+import { criarLogger } from '@/app/utils/log';
+
+const log = criarLogger('google');
 
 function GoogleCallbackContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
   const [message, setMessage] = useState('Processando autenticação...');
+  const { iniciarSessao } = useAuth();
 
   useEffect(() => {
     const handleCallback = async () => {
@@ -43,98 +49,42 @@ function GoogleCallbackContent() {
         // Enviar código para o backend processar
         // Inclui redirectUri explícito, pois muitos backends exigem validação rígida
         const redirectUri = `${window.location.origin}/auth/google/callback`;
-        // Log seguro - sem dados sensíveis
-        if (process.env.NODE_ENV === 'development') {
-          console.log('🔵 Iniciando autenticação Google...');
-        }
-        let response: any;
-        try {
-          response = await apiRequest(API_CONFIG.endpoints.auth.googleCallback, {
-            method: 'POST',
-            // Alguns backends esperam "redirect_uri" (snake_case)
-            body: JSON.stringify({ code, state, redirect_uri: redirectUri, redirectUri }),
-            skipAuth: true,
-          });
-          // Log seguro - apenas status de sucesso
-          if (process.env.NODE_ENV === 'development') {
-            console.log('✅ Autenticação Google bem-sucedida');
-          }
-        } catch (e: any) {
-          // Log apenas tipo de erro, sem dados sensíveis
-          if (process.env.NODE_ENV === 'development') {
-            console.log('⚠️ Tentando métodos alternativos de autenticação...');
-          }
-          // Alguns backends esperam GET com query params; faz fallback automático
-          const status = e?.status;
-          if (status === 404 || status === 405) {
-            const qp = new URLSearchParams({ code: code!, state: state || '', redirect_uri: redirectUri }).toString();
-            // 1) tenta GET no mesmo caminho
-            try {
-              response = await apiRequest(`${API_CONFIG.endpoints.auth.googleCallback}?${qp}`, { method: 'GET', skipAuth: true });
-            } catch (e2: any) {
-              // 2) tenta caminho alternativo sem '/auth'
-              const altPath = '/auterota/google/callback';
-              try {
-                response = await apiRequest(altPath, { method: 'POST', body: JSON.stringify({ code, state, redirect_uri: redirectUri, redirectUri }), skipAuth: true });
-              } catch (e3: any) {
-                // 3) fallback final GET no caminho alternativo
-                response = await apiRequest(`${altPath}?${qp}`, { method: 'GET', skipAuth: true });
-              }
-            }
-          } else {
-            throw e;
-          }
-        }
-
-        // Considera sucesso se vier token e usuário, mesmo sem flag 'success'
-        const user = response.user || response.usuario || response.data?.usuario || response.data?.user;
-        const token = response.token || response.data?.token;
-        const isNewUser = response.isNewUser || response.is_new_user || !user?.tel;
-        const ok = !!token && !!user;
+        log.debug('🔵 Iniciando autenticação Google...');
+        // Alguns backends esperam "redirect_uri" (snake_case); os caminhos alternativos ficam no googleCallback
+        const { usuario: user, token, novoUsuario } = await googleCallback({ code, state: state || '', redirect_uri: redirectUri, redirectUri });
+        log.debug('✅ Autenticação Google bem-sucedida');
+        // Grava a sessão já aqui no popup: a aba que abriu recebe pelo evento `storage`
+        iniciarSessao({ usuario: user, token });
         
-        if (ok) {
-          localStorage.setItem('user', JSON.stringify(user));
-          localStorage.setItem('token', token);
-          
-          // Se é usuário novo do Google sem telefone, pedir telefone
-          if (isNewUser || !user.tel) {
-            setStatus('success');
-            setMessage('Login realizado! Precisamos do seu telefone para contato.');
-            // Comunica sucesso mas com necessidade de telefone
-            if (window.opener) {
-              window.opener.postMessage({ 
-                type: 'google-auth-success', 
-                user, 
-                token, 
-                needsPhone: true 
-              }, window.location.origin);
-              window.close();
-            }
-            setTimeout(() => router.push('/?needsPhone=true'), 2000);
-          } else {
-            setStatus('success');
-            setMessage('Login realizado com sucesso! Redirecionando...');
-            // Comunica sucesso normal
-            if (window.opener) {
-              window.opener.postMessage({ type: 'google-auth-success', user, token }, window.location.origin);
-              window.close();
-            }
-            setTimeout(() => router.push('/'), 2000);
+        // Se é usuário novo do Google sem telefone, pedir telefone
+        if (novoUsuario || !user.telefone) {
+          setStatus('success');
+          setMessage('Login realizado! Precisamos do seu telefone para contato.');
+          // Comunica sucesso mas com necessidade de telefone
+          if (window.opener) {
+            window.opener.postMessage({ 
+              type: 'google-auth-success', 
+              user, 
+              token, 
+              needsPhone: true 
+            }, window.location.origin);
+            window.close();
           }
+          setTimeout(() => router.push('/?needsPhone=true'), 2000);
         } else {
-          setStatus('error');
-          setMessage(response.message || 'Erro na autenticação');
-          // Comunica erro para opener
+          setStatus('success');
+          setMessage('Login realizado com sucesso! Redirecionando...');
+          // Comunica sucesso normal
           if (window.opener) {
-            window.opener.postMessage({ type: 'google-auth-error', message: response.message || 'Erro na autenticação' }, window.location.origin);
+            window.opener.postMessage({ type: 'google-auth-success', user, token }, window.location.origin);
             window.close();
           }
-          setTimeout(() => router.push('/'), 3000);
+          setTimeout(() => router.push('/'), 2000);
         }
       } catch (error) {
-        console.error('Erro no callback:', error);
+        log.error('Erro no callback:', error);
         setStatus('error');
-        const msg = (error as any)?.data?.message || (error as any)?.message || 'Erro interno. Tente novamente.';
+        const msg = mensagemDeErro(error, 'Erro interno. Tente novamente.');
         setMessage(msg);
         // Comunica erro para opener
         if (window.opener) {
@@ -1,110 +1,56 @@
 "use client";
 import { useEffect, useMemo, useState } from "react";
-import { apiRequest, API_CONFIG } from "@/app/utils/api";
-import type { AgendamentoData } from "@/app/types/index";
+import { alterarStatusAgendamento, atualizarAgendamento, cancelarAgendamento, criarAgendamento } from "@/app/utils/api";
+import type { AgendamentoData, StatusAgendamento } from "@/app/types/index";
+import { useServicos } from "@/app/hooks/useServicos";
+import { formatarPreco, nomeDoServico, precoVigente } from "@/app/utils/servicos";
+import { useConfiguracoes } from "@/app/hooks/useConfiguracoes";
+import { calcularDisponibilidadePorBarbeiro, codigoDoAgendamento, duracaoDoAgendamento, estaCancelado } from "@/app/utils/agenda";
+import { descreverCancelamento, registrarAlteracao } from "@/app/utils/politica";
+import { linkWhatsApp, preencherModelo } from "@/app/utils/mensagens";
+import { compararDataHora, formatarData, parseData } from "@/app/utils/datas";
+import { ACAO_STATUS, LISTA_STATUS, proximosStatus, STATUS_AGENDAMENTO, statusEmAberto } from "@/app/utils/status";
+import { estaFechado, expedienteDoDia } from "@/app/utils/funcionamento";
+import { useFeriados } from "@/app/hooks/useFeriados";
+import { feriadoNaData } from "@/app/utils/feriados";
+import { useBarbeiros } from "@/app/hooks/useBarbeiros";
+import { atendeServico, nomeDoBarbeiro } from "@/app/utils/barbeiros";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useAgendamentos } from "@/app/hooks/useAgendamentos";
+import { useAuth } from "@/app/hooks/useAuth";
 import { useRouter } from "next/navigation";
 
 export default function AdminAgendamentosPanel() {
-  const [agendamentos, setAgendamentos] = useState<AgendamentoData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
+  // Sessão conferida pelo admin/layout; a aba exige 'agendamentos.ver' (admin/page)
+  const { user, pode } = useAuth();
+  // Admin logado, para registrar quem cancelou ou remarcou
+  const adminAtual = (): { usuario_id?: string; nome?: string } => ({ usuario_id: user?.id, nome: user?.nome || user?.username });
   const router = useRouter();
 
   // Filtros
   const [searchTerm, setSearchTerm] = useState("");
   const [dateStart, setDateStart] = useState<string>("");
   const [dateEnd, setDateEnd] = useState<string>("");
+  const [barbeiroFiltro, setBarbeiroFiltro] = useState<string>("");
+  const [statusFiltro, setStatusFiltro] = useState<StatusAgendamento | "">("");
   // Paginação
   const [page, setPage] = useState<number>(1);
   const pageSize = 10;
 
-  useEffect(() => {
-    // Verifica se o usuário é admin
-    const userData = localStorage.getItem("user");
-    if (userData) {
-      const parsedUser = JSON.parse(userData);
-      // Exemplo: verificação simples, ajuste conforme sua lógica de admin
-      if (!parsedUser.isAdmin) {
-        setError("Acesso restrito: apenas administradores.");
-        setLoading(false);
-        return;
-      }
-    } else {
-      setError("Faça login como administrador para acessar.");
-      setLoading(false);
-      return;
-    }
-
-    // Buscar agendamentos
-    apiRequest(API_CONFIG.endpoints.agendamentos.listar, { method: "GET" })
-      .then((res) => {
-        if (res.success && res.data) {
-          const list = (res.data as any[]).map((a: any) => ({
-            ...a,
-            id: a?.id ?? a?._id ?? a?.agendamento_id ?? a?.id_agendamento ?? a?.codigo,
-            horario: a?.horario ?? a?.hora,
-          })) as AgendamentoData[];
-          setAgendamentos(list);
-        } else {
-          setError(res.message || "Erro ao buscar agendamentos.");
-        }
-      })
-      .catch((err) => {
-        setError(err.message || "Erro ao buscar agendamentos.");
-      })
-      .finally(() => setLoading(false));
-  }, []);
-
-  const servicos = useMemo(() => [
-    { id: 'corte', nome: 'Corte' },
-    { id: 'barba', nome: 'Barba' },
-    { id: 'cabelo-barba', nome: 'Cabelo e Barba' },
-    { id: 'sombrancelha', nome: 'Sombrancelha' },
-    { id: 'pezinho', nome: 'Pezinho' },
-  ], []);
-
-  function getAuthHeader() {
-    if (typeof window === 'undefined') return {} as Record<string,string>;
-    const token = localStorage.getItem('token') || localStorage.getItem('authToken');
-    return token ? { Authorization: `Bearer ${token}` } : {};
-  }
+  // Criar, editar e cancelar já recarregam a lista (utils/consultas)
+  const { agendamentos, loading, erro: error } = useAgendamentos();
 
-  async function refresh() {
-    setLoading(true);
-    setError("");
-    try {
-      const res = await apiRequest(API_CONFIG.endpoints.agendamentos.listar, { method: 'GET' });
-      if (res.success && res.data) {
-        const list = (res.data as any[]).map((a: any) => ({
-          ...a,
-          id: a?.id ?? a?._id ?? a?.agendamento_id ?? a?.id_agendamento ?? a?.codigo,
-          horario: a?.horario ?? a?.hora,
-        })) as AgendamentoData[];
-        setAgendamentos(list);
-      } else setError(res.message || 'Erro ao buscar agendamentos.');
-    } catch (e: any) {
-      setError(e?.message || 'Erro ao buscar agendamentos.');
-    } finally {
-      setLoading(false);
-    }
-  }
+  // Inclui inativos para exibir corretamente agendamentos antigos
+  const { servicos } = useServicos({ incluirInativos: true });
+  const { barbeiros } = useBarbeiros({ incluirInativos: true });
 
   // Helpers de filtro
   const normalizeStr = (v?: string) => (v || "").toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
-  const parseDate = (v?: string) => {
-    if (!v) return null;
-    // aceita YYYY-MM-DD ou DD/MM/YYYY
-    if (/^\d{4}-\d{2}-\d{2}$/.test(v)) return new Date(v + "T00:00:00");
-    const m = v.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
-    if (m) return new Date(`${m[3]}-${m[2]}-${m[1]}T00:00:00`);
-    const d = new Date(v);
-    return isNaN(d.getTime()) ? null : d;
-  };
 
   const filteredAgendamentos = useMemo(() => {
     const s = normalizeStr(searchTerm);
-    const start = parseDate(dateStart);
-    const end = parseDate(dateEnd);
+    const start = parseData(dateStart);
+    const end = parseData(dateEnd);
     const filtered = agendamentos.filter((ag) => {
       // filtro de busca
       const nome = normalizeStr(ag.nome);
@@ -112,25 +58,25 @@ export default function AdminAgendamentosPanel() {
       const matchSearch = !s || nome.includes(s) || tel.includes(s);
 
       // filtro de data (inclusive)
-      const d = parseDate(ag.data);
+      const d = parseData(ag.data);
       const matchStart = !start || (d && d >= start);
       const matchEnd = !end || (d && d <= end);
 
-      return matchSearch && matchStart && matchEnd;
+      // filtro de barbeiro ("-" = agendamentos sem barbeiro atribuído)
+      const matchBarbeiro = !barbeiroFiltro || (barbeiroFiltro === '-' ? !ag.barbeiro : ag.barbeiro === barbeiroFiltro);
+
+      const matchStatus = !statusFiltro || ag.status === statusFiltro;
+
+      return matchSearch && matchStart && matchEnd && matchBarbeiro && matchStatus;
     });
     // ordenar por data ASC e horário ASC
-    const toComparable = (ag: AgendamentoData) => {
-      const d = parseDate(ag.data)?.getTime() ?? 0;
-      const h = (ag.horario || (ag as any).hora || "00:00");
-      const [hh, mm] = (typeof h === 'string' && /^\d{2}:\d{2}$/.test(h)) ? h.split(':').map(Number) : [0, 0];
-      return d + hh * 60_000 * 60 + mm * 60_000; // date millis + time offset
-    };
-    filtered.sort((a, b) => toComparable(a) - toComparable(b));
+    const comparavel = (ag: AgendamentoData) => ({ data: parseData(ag.data) || '', horario: ag.horario });
+    filtered.sort((a, b) => compararDataHora(comparavel(a), comparavel(b)));
     return filtered;
-  }, [agendamentos, searchTerm, dateStart, dateEnd]);
+  }, [agendamentos, searchTerm, dateStart, dateEnd, barbeiroFiltro, statusFiltro]);
 
   // Reset página ao alterar filtros/lista
-  useEffect(() => { setPage(1); }, [searchTerm, dateStart, dateEnd, agendamentos.length]);
+  useEffect(() => { setPage(1); }, [searchTerm, dateStart, dateEnd, barbeiroFiltro, statusFiltro, agendamentos.length]);
 
   const totalPages = Math.max(1, Math.ceil(filteredAgendamentos.length / pageSize));
   const pageClamped = Math.min(page, totalPages);
@@ -142,31 +88,101 @@ export default function AdminAgendamentosPanel() {
     setSearchTerm("");
     setDateStart("");
     setDateEnd("");
+    setBarbeiroFiltro("");
+    setStatusFiltro("");
   };
 
+  // Cancela sem apagar, registrando o admin e o motivo
   async function handleDelete(item: AgendamentoData) {
-    const id = item?.id || (item as any)?._id;
-    if (!id) return alert('Não é possível excluir: registro sem ID.');
-    if (!confirm(`Excluir agendamento de ${item.nome} em ${item.data} às ${item.horario || item.hora}?`)) return;
+    if (!item.id) return alert('Não é possível cancelar: registro sem ID.');
+    const motivo = prompt(`Motivo do cancelamento de ${item.nome} em ${formatarData(item.data)} às ${item.horario}:`);
+    if (motivo === null) return;
+    if (!motivo.trim()) return alert('Informe o motivo do cancelamento.');
     try {
-      const resp = await apiRequest(API_CONFIG.endpoints.agendamentos.remover(id), { method: 'DELETE' });
-      if ((resp as any)?.success === false) return alert(resp?.message || 'Erro ao excluir');
-      await refresh();
-      alert('Agendamento excluído.');
-    } catch (e: any) {
-      alert(e?.message || 'Erro ao excluir');
+      await cancelarAgendamento(item, { por: 'admin', ...adminAtual(), motivo: motivo.trim() });
+      if (item.telefone && confirm('Agendamento cancelado. Avisar o cliente pelo WhatsApp?')) {
+        avisarCliente(item, 'cancelamento', motivo.trim());
+      }
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao cancelar'));
     }
   }
 
+  // Abre o WhatsApp do cliente com o modelo de mensagem configurado
+  function avisarCliente(item: AgendamentoData, tipo: 'cancelamento' | 'lembrete', motivo?: string) {
+    const servico = servicos.find(s => s.id === item.servico);
+    const mensagem = preencherModelo(configuracoes.contato.mensagens[tipo], {
+      nome: item.nome,
+      telefone: item.telefone,
+      servico: servico?.nome || item.servico,
+      preco: servico ? formatarPreco(precoVigente(servico)) : undefined,
+      data: formatarData(item.data || ''),
+      horario: item.horario,
+      barbeiro: item.barbeiro ? nomeDoBarbeiro(barbeiros, item.barbeiro) : undefined,
+      codigo: codigoDoAgendamento(item),
+      motivo,
+    });
+    const link = linkWhatsApp(item.telefone, mensagem);
+    if (!link) return alert('O telefone deste cliente não é um número de WhatsApp válido.');
+    window.open(link, '_blank');
+  }
+
+  async function handleStatus(item: AgendamentoData, status: StatusAgendamento) {
+    if (status === 'nao_compareceu' && !confirm(`Marcar ${item.nome} como não compareceu?`)) return;
+    try {
+      await alterarStatusAgendamento(item, status, { por: 'admin', ...adminAtual() });
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao atualizar status'));
+    }
+  }
+
+  // Ações rápidas de status, seguidas de Editar/Cancelar enquanto o agendamento está em aberto (cada uma com sua permissão)
+  function renderAcoes(ag: AgendamentoData, tamanho: 'xs' | 'sm') {
+    const status = ag.status || 'confirmado';
+    const btn = tamanho === 'xs' ? 'flex-1 px-3 py-2 text-xs' : 'px-3 py-1 text-sm';
+    return (
+      <>
+        {pode('agendamentos.status') && proximosStatus(status).filter(s => ACAO_STATUS[s]).map(s => (
+          <button key={s} className={`${btn} border rounded hover:bg-gray-50 font-semibold`} onClick={() => handleStatus(ag, s)}>
+            {ACAO_STATUS[s]}
+          </button>
+        ))}
+        {statusEmAberto(status) && (
+          <>
+            {ag.telefone && (
+              <button className={`${btn} border border-green-600 text-green-700 rounded hover:bg-green-50 font-semibold`} onClick={() => avisarCliente(ag, 'lembrete')}>Lembrete</button>
+            )}
+            {pode('agendamentos.editar') && (
+              <button className={`${btn} bg-yellow-500 text-black rounded hover:bg-yellow-600 font-semibold`} onClick={() => openEdit(ag)}>Editar</button>
+            )}
+            {pode('agendamentos.cancelar') && (
+              <button className={`${btn} bg-red-600 text-white rounded hover:bg-red-700 font-semibold`} onClick={() => handleDelete(ag)}>Cancelar</button>
+            )}
+          </>
+        )}
+      </>
+    );
+  }
+
+  function renderStatus(ag: AgendamentoData) {
+    const meta = STATUS_AGENDAMENTO[ag.status || 'confirmado'];
+    return (
+      <span className={`text-xs px-2 py-1 rounded whitespace-nowrap ${meta.classe}`} title={estaCancelado(ag) ? descreverCancelamento(ag) : undefined}>
+        {meta.rotulo}
+      </span>
+    );
+  }
+
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editItem, setEditItem] = useState<AgendamentoData | null>(null);
 
   function openNew() {
+    if (!pode('agendamentos.criar')) return;
     setEditItem({ nome: '', telefone: '', servico: '', data: '', horario: '' });
     setIsModalOpen(true);
   }
   function openEdit(item: AgendamentoData) {
-    setEditItem({ ...item, horario: item.horario || item.hora || '' });
+    setEditItem({ ...item, horario: item.horario });
     setIsModalOpen(true);
   }
 
@@ -177,49 +193,74 @@ export default function AdminAgendamentosPanel() {
     return () => window.removeEventListener('openNewAgendamento', handleOpenNew);
   }, []);
 
-  // Gera slots de horário (step em minutos)
-  const generateSlots = (start = "09:00", end = "20:00", stepMin = 60) => {
-    const [sh, sm] = start.split(":").map(Number);
-    const [eh, em] = end.split(":").map(Number);
-    const startMin = sh * 60 + sm;
-    const endMin = eh * 60 + em;
-    const out: string[] = [];
-    for (let m = startMin; m <= endMin; m += stepMin) {
-      const hh = String(Math.floor(m / 60)).padStart(2, "0");
-      const mm = String(m % 60).padStart(2, "0");
-      out.push(`${hh}:${mm}`);
-    }
-    return out;
-  };
+  const { configuracoes } = useConfiguracoes();
+  const { agenda, funcionamento } = configuracoes;
+  const { feriados } = useFeriados();
 
-  const allTimeSlots = useMemo(() => generateSlots("09:00", "20:00", 60), []);
+  // Horários disponíveis (e barbeiros livres em cada um) conforme data, serviço e barbeiro do modal
+  const disponibilidadeEdit = useMemo<Record<string, string[]>>(() => {
+    if (!editItem?.data) return {};
+    const expediente = expedienteDoDia(editItem.data, funcionamento, feriados);
+    const doDia = agendamentos.filter(a => a.data === editItem.data);
+    const duracao = duracaoDoAgendamento({ servico: editItem.servico }, servicos, agenda.duracaoPadraoMinutos);
+    const candidatos = barbeiros.filter(b => b.ativo && atendeServico(b, editItem.servico));
+    return calcularDisponibilidadePorBarbeiro({
+      expediente,
+      agendamentos: doDia,
+      barbeiros: editItem.barbeiro ? candidatos.filter(b => b.id === editItem.barbeiro) : candidatos,
+      totalCadeiras: barbeiros.filter(b => b.ativo).length,
+      servicos,
+      duracaoPadrao: agenda.duracaoPadraoMinutos,
+      duracao,
+      intervaloMinutos: agenda.intervaloMinutos,
+      ignorarId: editItem.id,
+    });
+  }, [agendamentos, editItem?.data, editItem?.id, editItem?.servico, editItem?.barbeiro, servicos, barbeiros, agenda, funcionamento, feriados]);
 
-  // Lista de horários disponíveis conforme a data selecionada no modal
   const availableTimes = useMemo(() => {
-    if (!editItem?.data) return [];
-    const occupied = new Set(
-      agendamentos
-        .filter(a => a.data === editItem.data)
-        .map(a => a.horario || (a as any).hora)
-        .filter(Boolean)
-    );
-    let avail = allTimeSlots.filter(t => !occupied.has(t));
-
-    // Se estiver editando, garanta que o horário atual conste na lista
-    if (editItem?.id && editItem?.horario && !avail.includes(editItem.horario)) {
-      avail = [editItem.horario, ...avail];
+    let avail = Object.keys(disponibilidadeEdit).sort();
+    // O horário gravado continua válido (ex.: fora da antecedência mínima) só enquanto
+    // data, barbeiro e serviço são os do agendamento salvo; mudando algum, tem que estar livre
+    const salvo = editItem?.id ? agendamentos.find(a => String(a.id) === String(editItem.id)) : undefined;
+    const mantemHorario = !!salvo && salvo.data === editItem?.data && (salvo.barbeiro || '') === (editItem?.barbeiro || '')
+      && salvo.servico === editItem?.servico;
+    if (salvo && mantemHorario && !avail.includes(salvo.horario)) {
+      avail = [salvo.horario, ...avail];
     }
     // dedup
     return Array.from(new Set(avail));
-  }, [agendamentos, editItem?.data, editItem?.id, editItem?.horario, allTimeSlots]);
+  }, [disponibilidadeEdit, agendamentos, editItem?.id, editItem?.data, editItem?.barbeiro, editItem?.servico]);
+
+  const feriadoEdit = editItem?.data ? feriadoNaData(editItem.data, feriados) : undefined;
 
   async function handleSave(item: AgendamentoData) {
+    // Mudança de data/horário de um agendamento existente fica registrada no histórico
+    const original = item.id ? agendamentos.find(a => String(a.id) === String(item.id)) : undefined;
+    let historico = item.historico;
+    if (original && (original.data !== item.data || original.horario !== item.horario)) {
+      const motivo = prompt('Motivo da remarcação (opcional):');
+      if (motivo === null) return;
+      historico = registrarAlteracao(original, {
+        acao: 'remarcacao',
+        por: 'admin',
+        ...adminAtual(),
+        motivo: motivo.trim() || undefined,
+        de: { data: original.data, horario: original.horario },
+      });
+    }
     const payload = {
       nome: item.nome,
       telefone: item.telefone,
       servico: item.servico,
       data: item.data,
       horario: item.horario,
+      duracao: servicos.find(s => s.id === item.servico)?.duracao,
+      // Sem barbeiro escolhido, atribui o primeiro livre no horário
+      barbeiro: item.barbeiro || disponibilidadeEdit[item.horario]?.[0] || undefined,
+      usuario_id: item.usuario_id,
+      // Agendamento feito pela própria barbearia já nasce confirmado
+      status: item.status || 'confirmado',
+      historico,
     };
 
     // Validação básica
@@ -230,30 +271,20 @@ export default function AdminAgendamentosPanel() {
     }
     if (item.id) {
       try {
-        const resp = await apiRequest(API_CONFIG.endpoints.agendamentos.atualizar(item.id), {
-          method: 'PUT',
-          body: JSON.stringify(payload),
-        });
-        if ((resp as any)?.success === false) return alert(resp?.message || 'Erro ao atualizar');
-      } catch (e: any) {
-        if (e?.status === 409) return alert(e?.message || 'Horário já ocupado. Escolha outro.');
-        return alert(e?.message || 'Erro ao atualizar');
+        // Com registro novo no histórico não repete (ver cancelarAgendamento)
+        await atualizarAgendamento(String(item.id), payload, { tentativas: historico !== item.historico ? 1 : undefined });
+      } catch (error) {
+        return alert(mensagemDeErro(error, 'Erro ao atualizar'));
       }
     } else {
       try {
-        const resp = await apiRequest(API_CONFIG.endpoints.agendamentos.criar, {
-          method: 'POST',
-          body: JSON.stringify(payload),
-        });
-        if ((resp as any)?.success === false) return alert(resp?.message || 'Erro ao criar');
-      } catch (e: any) {
-        if (e?.status === 409) return alert(e?.message || 'Horário já ocupado. Escolha outro.');
-        return alert(e?.message || 'Erro ao criar');
+        await criarAgendamento(payload);
+      } catch (error) {
+        return alert(mensagemDeErro(error, 'Erro ao criar'));
       }
     }
     setIsModalOpen(false);
     setEditItem(null);
-    await refresh();
     alert('Agendamento salvo.');
   }
 
@@ -267,7 +298,7 @@ export default function AdminAgendamentosPanel() {
       </div>
 
       {/* Barra de filtros */}
-      <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+      <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
         <div className="col-span-1 sm:col-span-2 lg:col-span-2">
           <label className="block text-sm font-medium text-gray-700 mb-1">Buscar (nome ou telefone)</label>
           <input
@@ -278,6 +309,33 @@ export default function AdminAgendamentosPanel() {
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Barbeiro</label>
+          <select
+            className="w-full px-3 py-2 border rounded text-sm"
+            value={barbeiroFiltro}
+            onChange={(e) => setBarbeiroFiltro(e.target.value)}
+          >
+            <option value="">Todos</option>
+            {barbeiros.map(b => (
+              <option key={b.id} value={b.id}>{b.nome}</option>
+            ))}
+            <option value="-">Sem barbeiro</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+          <select
+            className="w-full px-3 py-2 border rounded text-sm"
+            value={statusFiltro}
+            onChange={(e) => setStatusFiltro(e.target.value as StatusAgendamento | "")}
+          >
+            <option value="">Todos</option>
+            {LISTA_STATUS.map(s => (
+              <option key={s} value={s}>{STATUS_AGENDAMENTO[s].rotulo}</option>
+            ))}
+          </select>
+        </div>
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Data inicial</label>
           <input
@@ -343,24 +401,27 @@ export default function AdminAgendamentosPanel() {
             </div>
           ) : (
             pagedAgendamentos.map((ag, idx) => (
-              <div key={(ag as any)?.id ?? (ag as any)?._id ?? idx} className="bg-white p-4 rounded border shadow-sm">
+              <div key={ag.id ?? idx} className="bg-white p-4 rounded border shadow-sm">
                 <div className="flex justify-between items-start mb-2">
                   <div>
                     <h3 className="font-semibold text-sm">{ag.nome}</h3>
                     <p className="text-xs text-gray-600">{ag.telefone}</p>
                   </div>
-                  <div className="text-right">
-                    <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">{ag.servico}</span>
+                  <div className="text-right space-y-1">
+                    <span className="block text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">{nomeDoServico(servicos, ag.servico)}</span>
+                    {renderStatus(ag)}
                   </div>
                 </div>
                 <div className="flex justify-between items-center text-xs text-gray-600 mb-3">
-                  <span>{ag.data}</span>
-                  <span className="font-medium">{ag.horario || ag.hora}</span>
-                </div>
-                <div className="flex gap-2">
-                  <button className="flex-1 px-3 py-2 text-xs bg-yellow-500 text-black rounded hover:bg-yellow-600 font-semibold" onClick={() => openEdit(ag)}>Editar</button>
-                  <button className="flex-1 px-3 py-2 text-xs bg-red-600 text-white rounded hover:bg-red-700 font-semibold" onClick={() => handleDelete(ag)}>Excluir</button>
+                  <span>{formatarData(ag.data)}</span>
+                  <span>{ag.barbeiro ? nomeDoBarbeiro(barbeiros, ag.barbeiro) : 'Sem barbeiro'}</span>
+                  <span className="font-medium">{ag.horario}</span>
                 </div>
+                {estaCancelado(ag) ? (
+                  <p className="text-xs text-red-700">{descreverCancelamento(ag)}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">{renderAcoes(ag, 'xs')}</div>
+                )}
               </div>
             ))
           )}
@@ -375,29 +436,30 @@ export default function AdminAgendamentosPanel() {
               <th className="py-3 px-4 border-b text-sm text-left">Nome</th>
               <th className="py-3 px-4 border-b text-sm text-left">Telefone</th>
               <th className="py-3 px-4 border-b text-sm text-left">Serviço</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Barbeiro</th>
               <th className="py-3 px-4 border-b text-sm text-left">Data</th>
               <th className="py-3 px-4 border-b text-sm text-left">Horário</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Status</th>
               <th className="py-3 px-4 border-b text-sm text-center">Ações</th>
             </tr>
           </thead>
           <tbody>
             {filteredAgendamentos.length === 0 ? (
               <tr>
-                <td colSpan={6} className="py-4 text-center text-gray-500 text-sm">Nenhum agendamento encontrado com os filtros atuais.</td>
+                <td colSpan={8} className="py-4 text-center text-gray-500 text-sm">Nenhum agendamento encontrado com os filtros atuais.</td>
               </tr>
             ) : (
               pagedAgendamentos.map((ag, idx) => (
-                <tr key={(ag as any)?.id ?? (ag as any)?._id ?? idx} className="border-b hover:bg-gray-50">
+                <tr key={ag.id ?? idx} className="border-b hover:bg-gray-50">
                   <td className="py-3 px-4 text-sm">{ag.nome}</td>
                   <td className="py-3 px-4 text-sm">{ag.telefone}</td>
-                  <td className="py-3 px-4 text-sm">{ag.servico}</td>
-                  <td className="py-3 px-4 text-sm">{ag.data}</td>
-                  <td className="py-3 px-4 text-sm">{ag.horario || ag.hora}</td>
+                  <td className="py-3 px-4 text-sm">{nomeDoServico(servicos, ag.servico)}</td>
+                  <td className="py-3 px-4 text-sm">{ag.barbeiro ? nomeDoBarbeiro(barbeiros, ag.barbeiro) : '-'}</td>
+                  <td className="py-3 px-4 text-sm">{formatarData(ag.data)}</td>
+                  <td className="py-3 px-4 text-sm">{ag.horario}</td>
+                  <td className="py-3 px-4 text-sm">{renderStatus(ag)}</td>
                   <td className="py-3 px-4 text-center">
-                    <div className="flex items-center justify-center gap-2">
-                      <button className="px-3 py-1 text-sm bg-yellow-500 text-black rounded hover:bg-yellow-600 font-semibold" onClick={() => openEdit(ag)}>Editar</button>
-                      <button className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 font-semibold" onClick={() => handleDelete(ag)}>Excluir</button>
-                    </div>
+                    <div className="flex flex-wrap items-center justify-center gap-2">{renderAcoes(ag, 'sm')}</div>
                   </td>
                 </tr>
               ))
@@ -425,11 +487,22 @@ export default function AdminAgendamentosPanel() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">Serviço</label>
                 <select className="w-full px-3 py-2 border rounded text-sm" value={editItem?.servico || ''} onChange={(e) => setEditItem((prev: AgendamentoData | null) => prev ? { ...prev, servico: e.target.value } : prev)}>
                   <option value="">Selecione</option>
-                  {servicos.map(s => (
+                  {servicos.filter(s => s.ativo || s.id === editItem?.servico).map(s => (
                     <option key={s.id} value={s.id}>{s.nome}</option>
                   ))}
                 </select>
               </div>
+              {barbeiros.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Barbeiro</label>
+                  <select className="w-full px-3 py-2 border rounded text-sm" value={editItem?.barbeiro || ''} onChange={(e) => setEditItem((prev: AgendamentoData | null) => prev ? { ...prev, barbeiro: e.target.value || undefined } : prev)}>
+                    <option value="">Qualquer um disponível</option>
+                    {barbeiros.filter(b => (b.ativo && atendeServico(b, editItem?.servico || '')) || b.id === editItem?.barbeiro).map(b => (
+                      <option key={b.id} value={b.id}>{b.nome}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Data</label>
                 <input type="date" className="w-full px-3 py-2 border rounded text-sm" value={editItem?.data || ''} onChange={(e) => setEditItem((prev: AgendamentoData | null) => prev ? { ...prev, data: e.target.value } : prev)} />
@@ -442,7 +515,9 @@ export default function AdminAgendamentosPanel() {
                   onChange={(e) => setEditItem((prev: AgendamentoData | null) => prev ? { ...prev, horario: e.target.value } : prev)}
                   disabled={!editItem?.data}
                 >
-                  <option value="">{editItem?.data ? 'Selecione um horário' : 'Selecione a data primeiro'}</option>
+                  <option value="">
+                    {!editItem?.data ? 'Selecione a data primeiro' : estaFechado(editItem.data, funcionamento, feriados) ? `Barbearia fechada nesta data${feriadoEdit ? ` (${feriadoEdit.nome})` : ''}` : 'Selecione um horário'}
+                  </option>
                   {availableTimes.map((h) => (
                     <option key={h} value={h}>{h}</option>
                   ))}
@@ -0,0 +1,212 @@
+"use client";
+import { useState } from "react";
+import { atualizarBarbeiro, criarBarbeiro, removerBarbeiro } from "@/app/utils/api";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useBarbeiros } from "@/app/hooks/useBarbeiros";
+import { useServicos } from "@/app/hooks/useServicos";
+import { nomeDoServico } from "@/app/utils/servicos";
+import type { Barbeiro, BarbeiroInput } from "@/app/types/index";
+
+type BarbeiroForm = {
+  id?: string;
+  nome: string;
+  foto: string;
+  bio: string;
+  servicos: string[];
+  ativo: boolean;
+};
+
+const FORM_VAZIO: BarbeiroForm = {
+  nome: '',
+  foto: '',
+  bio: '',
+  servicos: [],
+  ativo: true,
+};
+
+export default function AdminBarbeirosPanel() {
+  const { barbeiros, loading, erro, recarregar } = useBarbeiros({ incluirInativos: true });
+  const { servicos } = useServicos({ incluirInativos: true });
+  const [editItem, setEditItem] = useState<BarbeiroForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  function openNew() {
+    setEditItem({ ...FORM_VAZIO });
+  }
+  function openEdit(b: Barbeiro) {
+    setEditItem({
+      id: b.id,
+      nome: b.nome,
+      foto: b.foto || '',
+      bio: b.bio || '',
+      servicos: [...b.servicos],
+      ativo: b.ativo,
+    });
+  }
+
+  function toggleServico(id: string) {
+    setEditItem((prev) => prev ? {
+      ...prev,
+      servicos: prev.servicos.includes(id) ? prev.servicos.filter((s) => s !== id) : [...prev.servicos, id],
+    } : prev);
+  }
+
+  async function handleSave(form: BarbeiroForm) {
+    if (!form.nome.trim()) return alert('Informe o nome do barbeiro.');
+
+    const payload: Partial<BarbeiroInput> = {
+      nome: form.nome.trim(),
+      foto: form.foto.trim() || undefined,
+      bio: form.bio.trim() || undefined,
+      servicos: form.servicos,
+      ativo: form.ativo,
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) {
+        await atualizarBarbeiro(form.id, payload);
+      } else {
+        const ordem = barbeiros.reduce((max, b) => Math.max(max, b.ordem), 0) + 1;
+        await criarBarbeiro({ ...(payload as BarbeiroInput), ordem });
+      }
+      setEditItem(null);
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao salvar barbeiro'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleAtivo(b: Barbeiro) {
+    try {
+      await atualizarBarbeiro(b.id, { ativo: !b.ativo });
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao atualizar barbeiro'));
+    }
+  }
+
+  async function handleDelete(b: Barbeiro) {
+    if (!confirm(`Excluir o barbeiro "${b.nome}"? Para apenas tirá-lo da agenda, use "Desativar".`)) return;
+    try {
+      await removerBarbeiro(b.id);
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao excluir barbeiro'));
+    }
+  }
+
+  if (loading && barbeiros.length === 0) return <div className="p-8 text-center">Carregando...</div>;
+  if (erro) return <div className="p-8 text-center text-red-600">{erro}</div>;
+
+  return (
+    <div className="p-4 md:p-8">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-xl md:text-2xl font-bold">Barbeiros</h2>
+        <button
+          className="bg-blue-600 text-white px-3 py-2 text-sm rounded shadow hover:bg-blue-700 font-bold"
+          onClick={openNew}
+        >
+          Novo Barbeiro
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full bg-white border rounded-lg overflow-hidden">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="py-3 px-4 border-b text-sm text-left">Barbeiro</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Serviços</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Situação</th>
+              <th className="py-3 px-4 border-b text-sm text-center">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {barbeiros.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="py-4 text-center text-gray-500 text-sm">
+                  Nenhum barbeiro cadastrado. Sem equipe cadastrada, a agenda funciona como uma cadeira só.
+                </td>
+              </tr>
+            ) : (
+              barbeiros.map((b) => (
+                <tr key={b.id} className={`border-b hover:bg-gray-50 ${b.ativo ? '' : 'text-gray-400'}`}>
+                  <td className="py-3 px-4 text-sm">
+                    <span className="font-medium">{b.nome}</span>
+                    {b.bio && <span className="block text-xs text-gray-500">{b.bio}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-sm">
+                    {b.servicos.length === 0 ? 'Todos' : b.servicos.map((id) => nomeDoServico(servicos, id)).join(', ')}
+                  </td>
+                  <td className="py-3 px-4 text-sm">
+                    <span className={`text-xs px-2 py-1 rounded ${b.ativo ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'}`}>
+                      {b.ativo ? 'Ativo' : 'Inativo'}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-center">
+                    <div className="flex items-center justify-center gap-2">
+                      <button className="px-3 py-1 text-sm bg-yellow-500 text-black rounded hover:bg-yellow-600 font-semibold" onClick={() => openEdit(b)}>Editar</button>
+                      <button className="px-3 py-1 text-sm border rounded hover:bg-gray-50" onClick={() => toggleAtivo(b)}>
+                        {b.ativo ? 'Desativar' : 'Ativar'}
+                      </button>
+                      <button className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 font-semibold" onClick={() => handleDelete(b)}>Excluir</button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editItem && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999] flex items-center justify-center p-2 md:p-4">
+          <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 md:p-6 border-b">
+              <h3 className="text-lg md:text-xl font-bold">{editItem.id ? 'Editar Barbeiro' : 'Novo Barbeiro'}</h3>
+              <button className="text-gray-500 hover:text-gray-700 text-xl" onClick={() => setEditItem(null)}>✕</button>
+            </div>
+            <div className="p-4 md:p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nome</label>
+                <input className="w-full px-3 py-2 border rounded text-sm" value={editItem.nome} onChange={(e) => setEditItem((prev) => prev ? { ...prev, nome: e.target.value } : prev)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Foto (URL)</label>
+                <input className="w-full px-3 py-2 border rounded text-sm" placeholder="Opcional" value={editItem.foto} onChange={(e) => setEditItem((prev) => prev ? { ...prev, foto: e.target.value } : prev)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Apresentação</label>
+                <textarea rows={3} className="w-full px-3 py-2 border rounded text-sm" placeholder="Opcional" value={editItem.bio} onChange={(e) => setEditItem((prev) => prev ? { ...prev, bio: e.target.value } : prev)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Serviços que realiza</label>
+                <p className="text-xs text-gray-500 mb-2">Deixe tudo desmarcado para atender todos os serviços.</p>
+                <div className="space-y-1">
+                  {servicos.map((s) => (
+                    <label key={s.id} className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={editItem.servicos.includes(s.id)} onChange={() => toggleServico(s.id)} />
+                      {s.nome}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={editItem.ativo} onChange={(e) => setEditItem((prev) => prev ? { ...prev, ativo: e.target.checked } : prev)} />
+                Recebendo agendamentos
+              </label>
+              <div className="flex gap-3 pt-2">
+                <button className="flex-1 px-4 py-2 border rounded text-sm" onClick={() => setEditItem(null)}>Cancelar</button>
+                <button className="flex-1 px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-50" disabled={saving} onClick={() => handleSave(editItem)}>
+                  {saving ? 'Salvando...' : 'Salvar'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+import { useEffect, useState } from "react";
+import { salvarConfiguracoes } from "@/app/utils/api";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useConfiguracoes } from "@/app/hooks/useConfiguracoes";
+import { descreverPolitica } from "@/app/utils/politica";
+import { MARCADORES, numeroWhatsApp, preencherModelo, TIPOS_MENSAGEM, VALORES_EXEMPLO } from "@/app/utils/mensagens";
+import type { ConfiguracaoAgenda, ConfiguracaoContato, PoliticaAgendamento, TipoMensagem } from "@/app/types/index";
+
+type JanelaForm = Record<'antecedenciaMinimaMinutos' | 'horizonteDias', string>;
+
+const janelaParaForm = (a: ConfiguracaoAgenda): JanelaForm => ({
+  antecedenciaMinimaMinutos: String(a.antecedenciaMinimaMinutos),
+  horizonteDias: String(a.horizonteDias),
+});
+
+type PoliticaForm = Record<keyof PoliticaAgendamento, string>;
+
+const paraForm = (p: PoliticaAgendamento): PoliticaForm => ({
+  antecedenciaMinimaHoras: String(p.antecedenciaMinimaHoras),
+  maxRemarcacoes: String(p.maxRemarcacoes),
+  janelaCancelamentoTardioHoras: String(p.janelaCancelamentoTardioHoras),
+});
+
+export default function AdminConfiguracoesPanel() {
+  const { configuracoes, loading, recarregar } = useConfiguracoes();
+  const [janela, setJanela] = useState<JanelaForm>(janelaParaForm(configuracoes.agenda));
+  const [politica, setPolitica] = useState<PoliticaForm>(paraForm(configuracoes.politica));
+  const [contato, setContato] = useState<ConfiguracaoContato>(configuracoes.contato);
+  const [tipoMensagem, setTipoMensagem] = useState<TipoMensagem>('agendamento');
+  const [saving, setSaving] = useState(false);
+
+  // Recarrega os formulários quando as configurações chegam do backend
+  useEffect(() => {
+    setJanela(janelaParaForm(configuracoes.agenda));
+  }, [configuracoes.agenda]);
+  useEffect(() => {
+    setPolitica(paraForm(configuracoes.politica));
+  }, [configuracoes.politica]);
+  useEffect(() => {
+    setContato(configuracoes.contato);
+  }, [configuracoes.contato]);
+
+  const valores: PoliticaAgendamento = {
+    antecedenciaMinimaHoras: Number(politica.antecedenciaMinimaHoras),
+    maxRemarcacoes: Number(politica.maxRemarcacoes),
+    janelaCancelamentoTardioHoras: Number(politica.janelaCancelamentoTardioHoras),
+  };
+  const valido = Object.values(valores).every((v) => Number.isFinite(v) && v >= 0) && Number.isInteger(valores.maxRemarcacoes);
+
+  async function handleSaveJanela() {
+    const antecedenciaMinimaMinutos = Number(janela.antecedenciaMinimaMinutos);
+    const horizonteDias = Number(janela.horizonteDias);
+    if (!Number.isInteger(antecedenciaMinimaMinutos) || antecedenciaMinimaMinutos < 0) return alert('A antecedência mínima deve ser um número inteiro de minutos.');
+    if (!Number.isInteger(horizonteDias) || horizonteDias < 1) return alert('Informe até quantos dias à frente o cliente pode agendar (mínimo 1).');
+    setSaving(true);
+    try {
+      await salvarConfiguracoes({ agenda: { ...configuracoes.agenda, antecedenciaMinimaMinutos, horizonteDias } });
+      await recarregar();
+      alert('Janela de agendamento salva.');
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao salvar janela de agendamento'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSave() {
+    if (!valido) return alert('Preencha as regras com números maiores ou iguais a zero.');
+    setSaving(true);
+    try {
+      await salvarConfiguracoes({ politica: valores });
+      await recarregar();
+      alert('Regras salvas.');
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao salvar regras'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSaveContato() {
+    const whatsapp = contato.whatsapp.replace(/\D/g, '');
+    if (whatsapp.length < 12) return alert('Informe o WhatsApp com DDI e DDD (ex.: 5511999999999).');
+    if (Object.values(contato.mensagens).some((m) => !m.trim())) return alert('Nenhuma mensagem pode ficar vazia.');
+    setSaving(true);
+    try {
+      await salvarConfiguracoes({ contato: { ...contato, whatsapp } });
+      await recarregar();
+      alert('WhatsApp e mensagens salvos.');
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao salvar mensagens'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-8 text-center">Carregando...</div>;
+
+  return (
+    <div className="p-4 md:p-8 max-w-2xl space-y-8">
+      <section>
+        <h2 className="text-xl md:text-2xl font-bold mb-4">Agendamento pelo Site</h2>
+        <div className="bg-white border rounded-lg p-4 md:p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Antecedência mínima para agendar (minutos)</label>
+            <input type="number" min={0} step={15} className="w-full px-3 py-2 border rounded text-sm" value={janela.antecedenciaMinimaMinutos} onChange={(e) => setJanela((prev) => ({ ...prev, antecedenciaMinimaMinutos: e.target.value }))} />
+            <p className="text-xs text-gray-500 mt-1">Horários mais próximos que isso (e os que já passaram) somem da lista.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Agendar com até quantos dias de antecedência</label>
+            <input type="number" min={1} step={1} className="w-full px-3 py-2 border rounded text-sm" value={janela.horizonteDias} onChange={(e) => setJanela((prev) => ({ ...prev, horizonteDias: e.target.value }))} />
+          </div>
+          <button className="px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-50" disabled={saving} onClick={handleSaveJanela}>
+            {saving ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-xl md:text-2xl font-bold mb-4">Cancelamento e Remarcação</h2>
+        <div className="bg-white border rounded-lg p-4 md:p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Antecedência mínima para o cliente cancelar ou remarcar (horas)</label>
+            <input type="number" min={0} step={0.5} className="w-full px-3 py-2 border rounded text-sm" value={politica.antecedenciaMinimaHoras} onChange={(e) => setPolitica((prev) => ({ ...prev, antecedenciaMinimaHoras: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Remarcações permitidas por agendamento</label>
+            <input type="number" min={0} step={1} className="w-full px-3 py-2 border rounded text-sm" value={politica.maxRemarcacoes} onChange={(e) => setPolitica((prev) => ({ ...prev, maxRemarcacoes: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Cancelamento tardio: com menos de (horas)</label>
+            <input type="number" min={0} step={1} className="w-full px-3 py-2 border rounded text-sm" value={politica.janelaCancelamentoTardioHoras} onChange={(e) => setPolitica((prev) => ({ ...prev, janelaCancelamentoTardioHoras: e.target.value }))} />
+          </div>
+          {valido && (
+            <div className="bg-gray-50 border rounded p-3">
+              <p className="text-xs font-semibold text-gray-600 mb-1">Como o cliente vê:</p>
+              <ul className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+                {descreverPolitica(valores).map((r) => <li key={r}>{r}</li>)}
+              </ul>
+            </div>
+          )}
+          <button className="px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-50" disabled={saving} onClick={handleSave}>
+            {saving ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-xl md:text-2xl font-bold mb-4">WhatsApp e Mensagens</h2>
+        <div className="bg-white border rounded-lg p-4 md:p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Número do WhatsApp (com DDI e DDD)</label>
+            <input inputMode="numeric" className="w-full px-3 py-2 border rounded text-sm" placeholder="5511999999999" value={contato.whatsapp} onChange={(e) => setContato((prev) => ({ ...prev, whatsapp: e.target.value }))} />
+            {!numeroWhatsApp(configuracoes.contato.whatsapp) && (
+              <p className="text-xs text-amber-700 mt-1">Nenhum número salvo: o site não mostra os botões de WhatsApp até você informar um.</p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(TIPOS_MENSAGEM) as TipoMensagem[]).map((t) => (
+              <button
+                key={t}
+                className={`px-3 py-1 text-sm rounded border ${tipoMensagem === t ? 'bg-blue-600 text-white border-blue-600' : 'hover:bg-gray-50'}`}
+                onClick={() => setTipoMensagem(t)}
+              >
+                {TIPOS_MENSAGEM[t].titulo}
+              </button>
+            ))}
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-2">{TIPOS_MENSAGEM[tipoMensagem].descricao}</p>
+            <textarea
+              rows={8}
+              className="w-full px-3 py-2 border rounded text-sm font-mono"
+              value={contato.mensagens[tipoMensagem]}
+              onChange={(e) => setContato((prev) => ({ ...prev, mensagens: { ...prev.mensagens, [tipoMensagem]: e.target.value } }))}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Marcadores: {Object.entries(MARCADORES).map(([chave, desc]) => (
+                <code key={chave} className="mr-2" title={desc}>{`{${chave}}`}</code>
+              ))}
+            </p>
+          </div>
+          <div className="bg-gray-50 border rounded p-3">
+            <p className="text-xs font-semibold text-gray-600 mb-1">Pré-visualização:</p>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{preencherModelo(contato.mensagens[tipoMensagem], VALORES_EXEMPLO)}</p>
+          </div>
+          <button className="px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-50" disabled={saving} onClick={handleSaveContato}>
+            {saving ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
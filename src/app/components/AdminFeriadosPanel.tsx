@@ -0,0 +1,225 @@
+"use client";
+import { useMemo, useState } from "react";
+import { atualizarFeriado, criarFeriado, removerFeriado } from "@/app/utils/api";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useFeriados } from "@/app/hooks/useFeriados";
+import { feriadosDoAno } from "@/app/utils/feriados";
+import { descreverFaixas, DIAS_SEMANA_ABREV } from "@/app/utils/funcionamento";
+import { anoAtual as obterAnoAtual, diaDaSemana, formatarData } from "@/app/utils/datas";
+import type { Feriado, FeriadoInput } from "@/app/types/index";
+
+type FeriadoForm = {
+  id?: string;
+  data: string;
+  nome: string;
+  tipo: Feriado['tipo'];
+  recorrente: boolean;
+  fechado: boolean;
+  inicio: string;
+  fim: string;
+};
+
+export default function AdminFeriadosPanel() {
+  const { feriados, loading, erro, recarregar } = useFeriados();
+  const anoAtual = obterAnoAtual();
+  const [ano, setAno] = useState(anoAtual);
+  const [editItem, setEditItem] = useState<FeriadoForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const lista = useMemo(() => feriadosDoAno(ano, feriados), [ano, feriados]);
+
+  function openNew() {
+    setEditItem({ data: '', nome: '', tipo: 'municipal', recorrente: true, fechado: true, inicio: '09:00', fim: '13:00' });
+  }
+  function openEdit(f: Feriado) {
+    // Municipais recorrentes aparecem no ano exibido, mas editamos o cadastro original
+    const original = f.id ? feriados.find((c) => c.id === f.id) : undefined;
+    setEditItem({
+      id: f.id,
+      data: original?.data || f.data,
+      nome: f.nome,
+      tipo: f.tipo,
+      recorrente: !!f.recorrente,
+      fechado: f.fechado,
+      inicio: f.faixas?.[0]?.inicio || '09:00',
+      fim: f.faixas?.[0]?.fim || '13:00',
+    });
+  }
+
+  async function handleSave(form: FeriadoForm) {
+    if (!form.nome.trim()) return alert('Informe o nome do feriado.');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(form.data)) return alert('Informe a data do feriado.');
+    if (!form.fechado && form.fim <= form.inicio) return alert('O horário reduzido precisa terminar depois de começar.');
+
+    const payload: FeriadoInput = {
+      data: form.data,
+      nome: form.nome.trim(),
+      tipo: form.tipo,
+      recorrente: form.tipo === 'municipal' ? form.recorrente : false,
+      fechado: form.fechado,
+      faixas: form.fechado ? [] : [{ inicio: form.inicio, fim: form.fim }],
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) await atualizarFeriado(form.id, payload);
+      else await criarFeriado(payload);
+      setEditItem(null);
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao salvar feriado'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(f: Feriado) {
+    if (!f.id) return;
+    const msg = f.tipo === 'nacional'
+      ? `Restaurar a regra padrão de ${f.nome} (fechado o dia todo)?`
+      : `Excluir o feriado municipal "${f.nome}"?`;
+    if (!confirm(msg)) return;
+    try {
+      await removerFeriado(f.id);
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao excluir feriado'));
+    }
+  }
+
+  if (loading && feriados.length === 0) return <div className="p-8 text-center">Carregando...</div>;
+
+  return (
+    <div className="p-4 md:p-8">
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h2 className="text-xl md:text-2xl font-bold">Feriados</h2>
+        <div className="flex items-center gap-2">
+          <select className="px-3 py-2 border rounded text-sm" value={ano} onChange={(e) => setAno(Number(e.target.value))}>
+            {[anoAtual - 1, anoAtual, anoAtual + 1].map((a) => (
+              <option key={a} value={a}>{a}</option>
+            ))}
+          </select>
+          <button
+            className="bg-blue-600 text-white px-3 py-2 text-sm rounded shadow hover:bg-blue-700 font-bold"
+            onClick={openNew}
+          >
+            Novo Feriado Municipal
+          </button>
+        </div>
+      </div>
+      {erro && (
+        <div className="mb-4 text-sm text-red-600">
+          {erro} Exibindo apenas os feriados nacionais.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full bg-white border rounded-lg overflow-hidden">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="py-3 px-4 border-b text-sm text-left">Data</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Feriado</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Tipo</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Funcionamento</th>
+              <th className="py-3 px-4 border-b text-sm text-center">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lista.map((f) => (
+              <tr key={`${f.data}-${f.nome}`} className="border-b hover:bg-gray-50">
+                <td className="py-3 px-4 text-sm whitespace-nowrap">
+                  {formatarData(f.data)} <span className="text-gray-500">({DIAS_SEMANA_ABREV[diaDaSemana(f.data)]})</span>
+                </td>
+                <td className="py-3 px-4 text-sm">{f.nome}</td>
+                <td className="py-3 px-4 text-sm">
+                  <span className={`text-xs px-2 py-1 rounded ${f.tipo === 'nacional' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'}`}>
+                    {f.tipo === 'nacional' ? 'Nacional' : 'Municipal'}
+                  </span>
+                </td>
+                <td className="py-3 px-4 text-sm">
+                  {f.fechado ? 'Fechado' : `Reduzido: ${descreverFaixas(f.faixas || [])}`}
+                </td>
+                <td className="py-3 px-4 text-center">
+                  <div className="flex items-center justify-center gap-2">
+                    <button className="px-3 py-1 text-sm bg-yellow-500 text-black rounded hover:bg-yellow-600 font-semibold" onClick={() => openEdit(f)}>Editar</button>
+                    {f.id && (
+                      <button className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 font-semibold" onClick={() => handleDelete(f)}>
+                        {f.tipo === 'nacional' ? 'Restaurar' : 'Excluir'}
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {editItem && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999] flex items-center justify-center p-2 md:p-4">
+          <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 md:p-6 border-b">
+              <h3 className="text-lg md:text-xl font-bold">{editItem.id || editItem.tipo === 'nacional' ? 'Editar Feriado' : 'Novo Feriado Municipal'}</h3>
+              <button className="text-gray-500 hover:text-gray-700 text-xl" onClick={() => setEditItem(null)}>✕</button>
+            </div>
+            <div className="p-4 md:p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nome</label>
+                <input
+                  className="w-full px-3 py-2 border rounded text-sm disabled:bg-gray-50"
+                  value={editItem.nome}
+                  disabled={editItem.tipo === 'nacional'}
+                  onChange={(e) => setEditItem((prev) => prev ? { ...prev, nome: e.target.value } : prev)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Data</label>
+                <input
+                  type="date"
+                  className="w-full px-3 py-2 border rounded text-sm disabled:bg-gray-50"
+                  value={editItem.data}
+                  disabled={editItem.tipo === 'nacional'}
+                  onChange={(e) => setEditItem((prev) => prev ? { ...prev, data: e.target.value } : prev)}
+                />
+              </div>
+              {editItem.tipo === 'municipal' && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={editItem.recorrente} onChange={(e) => setEditItem((prev) => prev ? { ...prev, recorrente: e.target.checked } : prev)} />
+                  Repete todo ano nesta data
+                </label>
+              )}
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="radio" checked={editItem.fechado} onChange={() => setEditItem((prev) => prev ? { ...prev, fechado: true } : prev)} />
+                  Fechado o dia todo
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="radio" checked={!editItem.fechado} onChange={() => setEditItem((prev) => prev ? { ...prev, fechado: false } : prev)} />
+                  Horário reduzido
+                </label>
+              </div>
+              {!editItem.fechado && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Abre às</label>
+                    <input type="time" step={900} className="w-full px-3 py-2 border rounded text-sm" value={editItem.inicio} onChange={(e) => setEditItem((prev) => prev ? { ...prev, inicio: e.target.value } : prev)} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Fecha às</label>
+                    <input type="time" step={900} className="w-full px-3 py-2 border rounded text-sm" value={editItem.fim} onChange={(e) => setEditItem((prev) => prev ? { ...prev, fim: e.target.value } : prev)} />
+                  </div>
+                </div>
+              )}
+              <div className="flex gap-3 pt-2">
+                <button className="flex-1 px-4 py-2 border rounded text-sm" onClick={() => setEditItem(null)}>Cancelar</button>
+                <button className="flex-1 px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-50" disabled={saving} onClick={() => handleSave(editItem)}>
+                  {saving ? 'Salvando...' : 'Salvar'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
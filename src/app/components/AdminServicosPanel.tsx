@@ -0,0 +1,266 @@
+"use client";
+import { useState } from "react";
+import { atualizarServico, criarServico, removerServico } from "@/app/utils/api";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useServicos } from "@/app/hooks/useServicos";
+import { emPromocao, formatarPreco } from "@/app/utils/servicos";
+import type { Servico, ServicoInput } from "@/app/types/index";
+
+type ServicoForm = {
+  id?: string;
+  nome: string;
+  preco: string;
+  preco_promocional: string;
+  duracao: string;
+  descricao: string;
+  ativo: boolean;
+};
+
+const FORM_VAZIO: ServicoForm = {
+  nome: '',
+  preco: '',
+  preco_promocional: '',
+  duracao: '30',
+  descricao: '',
+  ativo: true,
+};
+
+// Campos de preço aceitam "35,00" ou "35.00"
+const parseValor = (v: string) => Number(v.includes(',') ? v.replace(/\./g, '').replace(',', '.') : v);
+
+export default function AdminServicosPanel() {
+  const { servicos, loading, erro, recarregar } = useServicos({ incluirInativos: true });
+  const [editItem, setEditItem] = useState<ServicoForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  function openNew() {
+    setEditItem({ ...FORM_VAZIO });
+  }
+  function openEdit(s: Servico) {
+    setEditItem({
+      id: s.id,
+      nome: s.nome,
+      preco: s.preco.toFixed(2).replace('.', ','),
+      preco_promocional: s.preco_promocional != null ? s.preco_promocional.toFixed(2).replace('.', ',') : '',
+      duracao: String(s.duracao),
+      descricao: s.descricao || '',
+      ativo: s.ativo,
+    });
+  }
+
+  async function handleSave(form: ServicoForm) {
+    const preco = parseValor(form.preco);
+    const promo = form.preco_promocional.trim() ? parseValor(form.preco_promocional) : null;
+    const duracao = Number(form.duracao);
+
+    // Validação básica
+    if (!form.nome.trim()) return alert('Informe o nome do serviço.');
+    if (!Number.isFinite(preco) || preco <= 0) return alert('Informe um preço válido.');
+    if (promo != null && (!Number.isFinite(promo) || promo <= 0 || promo >= preco)) {
+      return alert('O preço promocional deve ser maior que zero e menor que o preço normal.');
+    }
+    if (!Number.isInteger(duracao) || duracao < 5) return alert('A duração deve ser de pelo menos 5 minutos.');
+
+    const payload: Partial<ServicoInput> = {
+      nome: form.nome.trim(),
+      preco,
+      preco_promocional: promo,
+      duracao,
+      descricao: form.descricao.trim() || undefined,
+      ativo: form.ativo,
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) {
+        await atualizarServico(form.id, payload);
+      } else {
+        // Novos serviços entram no fim da lista
+        const ordem = servicos.reduce((max, s) => Math.max(max, s.ordem), 0) + 1;
+        await criarServico({ ...(payload as ServicoInput), ordem });
+      }
+      setEditItem(null);
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao salvar serviço'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleAtivo(s: Servico) {
+    try {
+      await atualizarServico(s.id, { ativo: !s.ativo });
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao atualizar serviço'));
+    }
+  }
+
+  // Troca a ordem de exibição com o vizinho (direcao -1 = subir, 1 = descer)
+  async function mover(idx: number, direcao: -1 | 1) {
+    const a = servicos[idx];
+    const b = servicos[idx + direcao];
+    if (!a || !b) return;
+    // Renumera quando há ordens repetidas (ex.: catálogo antigo sem ordem)
+    const ordemA = a.ordem === b.ordem ? idx + 1 : a.ordem;
+    const ordemB = a.ordem === b.ordem ? idx + 1 + direcao : b.ordem;
+    try {
+      await Promise.all([
+        atualizarServico(a.id, { ordem: ordemB }),
+        atualizarServico(b.id, { ordem: ordemA }),
+      ]);
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao reordenar serviços'));
+    }
+  }
+
+  async function handleDelete(s: Servico) {
+    if (!confirm(`Excluir o serviço "${s.nome}"? Para apenas tirá-lo do site, use "Desativar".`)) return;
+    try {
+      await removerServico(s.id);
+      await recarregar();
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao excluir serviço'));
+    }
+  }
+
+  if (loading && servicos.length === 0) return <div className="p-8 text-center">Carregando...</div>;
+  if (erro) return <div className="p-8 text-center text-red-600">{erro}</div>;
+
+  return (
+    <div className="p-4 md:p-8">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-xl md:text-2xl font-bold">Serviços e Preços</h2>
+        <button
+          className="bg-blue-600 text-white px-3 py-2 text-sm rounded shadow hover:bg-blue-700 font-bold"
+          onClick={openNew}
+        >
+          Novo Serviço
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full bg-white border rounded-lg overflow-hidden">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="py-3 px-4 border-b text-sm text-left">Ordem</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Serviço</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Duração</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Preço</th>
+              <th className="py-3 px-4 border-b text-sm text-left">Situação</th>
+              <th className="py-3 px-4 border-b text-sm text-center">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {servicos.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="py-4 text-center text-gray-500 text-sm">Nenhum serviço cadastrado.</td>
+              </tr>
+            ) : (
+              servicos.map((s, idx) => (
+                <tr key={s.id} className={`border-b hover:bg-gray-50 ${s.ativo ? '' : 'text-gray-400'}`}>
+                  <td className="py-3 px-4 text-sm">
+                    <div className="flex gap-1">
+                      <button
+                        className="px-2 py-1 border rounded disabled:opacity-30"
+                        onClick={() => mover(idx, -1)}
+                        disabled={idx === 0}
+                        title="Subir"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        className="px-2 py-1 border rounded disabled:opacity-30"
+                        onClick={() => mover(idx, 1)}
+                        disabled={idx === servicos.length - 1}
+                        title="Descer"
+                      >
+                        ↓
+                      </button>
+                    </div>
+                  </td>
+                  <td className="py-3 px-4 text-sm">
+                    <span className="font-medium">{s.nome}</span>
+                    {s.descricao && <span className="block text-xs text-gray-500">{s.descricao}</span>}
+                  </td>
+                  <td className="py-3 px-4 text-sm">{s.duracao} min</td>
+                  <td className="py-3 px-4 text-sm">
+                    {emPromocao(s) ? (
+                      <>
+                        <span className="line-through text-gray-400 mr-2">{formatarPreco(s.preco)}</span>
+                        <span className="font-semibold text-green-700">{formatarPreco(s.preco_promocional as number)}</span>
+                      </>
+                    ) : (
+                      formatarPreco(s.preco)
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-sm">
+                    <span className={`text-xs px-2 py-1 rounded ${s.ativo ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'}`}>
+                      {s.ativo ? 'Ativo' : 'Inativo'}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-center">
+                    <div className="flex items-center justify-center gap-2">
+                      <button className="px-3 py-1 text-sm bg-yellow-500 text-black rounded hover:bg-yellow-600 font-semibold" onClick={() => openEdit(s)}>Editar</button>
+                      <button className="px-3 py-1 text-sm border rounded hover:bg-gray-50" onClick={() => toggleAtivo(s)}>
+                        {s.ativo ? 'Desativar' : 'Ativar'}
+                      </button>
+                      <button className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 font-semibold" onClick={() => handleDelete(s)}>Excluir</button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editItem && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999] flex items-center justify-center p-2 md:p-4">
+          <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 md:p-6 border-b">
+              <h3 className="text-lg md:text-xl font-bold">{editItem.id ? 'Editar Serviço' : 'Novo Serviço'}</h3>
+              <button className="text-gray-500 hover:text-gray-700 text-xl" onClick={() => setEditItem(null)}>✕</button>
+            </div>
+            <div className="p-4 md:p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nome</label>
+                <input className="w-full px-3 py-2 border rounded text-sm" value={editItem.nome} onChange={(e) => setEditItem((prev) => prev ? { ...prev, nome: e.target.value } : prev)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Descrição</label>
+                <input className="w-full px-3 py-2 border rounded text-sm" value={editItem.descricao} onChange={(e) => setEditItem((prev) => prev ? { ...prev, descricao: e.target.value } : prev)} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Preço (R$)</label>
+                  <input inputMode="decimal" className="w-full px-3 py-2 border rounded text-sm" placeholder="35,00" value={editItem.preco} onChange={(e) => setEditItem((prev) => prev ? { ...prev, preco: e.target.value } : prev)} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Promocional (R$)</label>
+                  <input inputMode="decimal" className="w-full px-3 py-2 border rounded text-sm" placeholder="Opcional" value={editItem.preco_promocional} onChange={(e) => setEditItem((prev) => prev ? { ...prev, preco_promocional: e.target.value } : prev)} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Duração (minutos)</label>
+                <input type="number" min={5} step={5} className="w-full px-3 py-2 border rounded text-sm" value={editItem.duracao} onChange={(e) => setEditItem((prev) => prev ? { ...prev, duracao: e.target.value } : prev)} />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={editItem.ativo} onChange={(e) => setEditItem((prev) => prev ? { ...prev, ativo: e.target.checked } : prev)} />
+                Disponível para agendamento
+              </label>
+              <div className="flex gap-3 pt-2">
+                <button className="flex-1 px-4 py-2 border rounded text-sm" onClick={() => setEditItem(null)}>Cancelar</button>
+                <button className="flex-1 px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-50" disabled={saving} onClick={() => handleSave(editItem)}>
+                  {saving ? 'Salvando...' : 'Salvar'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,36 @@
 "use client";
 import { useState, useEffect, useMemo } from "react";
-import { apiRequest, API_CONFIG } from "@/app/utils/api";
-import { User } from "@/app/types";
+import { agendarOuEnfileirar } from "@/app/utils/filaOffline";
+import type { AgendamentoData, StatusAgendamento } from "@/app/types/index";
+import { useServicos } from "@/app/hooks/useServicos";
+import { formatarPreco, precoVigente } from "@/app/utils/servicos";
+import { useConfiguracoes } from "@/app/hooks/useConfiguracoes";
+import { calcularDisponibilidadePorBarbeiro, codigoDoAgendamento, expedienteReservavel, ultimoDiaReservavel, validarInicio } from "@/app/utils/agenda";
+import { useBarbeiros } from "@/app/hooks/useBarbeiros";
+import { atendeServico } from "@/app/utils/barbeiros";
+import Image from "next/image";
+import Link from "next/link";
+import { descreverFaixas, estaFechado, expedienteDoDia } from "@/app/utils/funcionamento";
+import { useFeriados } from "@/app/hooks/useFeriados";
+import { useHorariosOcupados } from "@/app/hooks/useHorariosOcupados";
+import { feriadoNaData } from "@/app/utils/feriados";
+import { descreverPolitica } from "@/app/utils/politica";
+import { linkWhatsApp, numeroWhatsApp, preencherModelo } from "@/app/utils/mensagens";
+import { formatarData, hojeISO } from "@/app/utils/datas";
+import { ehErroApi, mensagemDeErro, MENSAGENS_ERRO } from "@/app/utils/erros";
+import { useAuth } from "@/app/hooks/useAuth";
+
+// Resumo exibido depois que o backend registra o agendamento (ou que ele entra na fila offline)
+interface Confirmacao {
+  codigo: string;
+  servico: string;
+  preco: string;
+  data: string;
+  horario: string;
+  barbeiro?: string;
+  status: StatusAgendamento;
+  pendenteEnvio?: boolean; // sem conexão: guardado para reenviar (utils/filaOffline)
+}
 
 interface AgendamentoModalProps {
   isOpen: boolean;
@@ -15,91 +44,101 @@ export default function AgendamentoModal({ isOpen, onClose, onLoginRequired }: A
     telefone: '',
     servico: '',
     data: '',
-    horario: ''
+    horario: '',
+    barbeiro: '' // vazio = qualquer um
   });
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [erroEnvio, setErroEnvio] = useState('');
+  const [confirmacao, setConfirmacao] = useState<Confirmacao | null>(null);
 
   useEffect(() => {
-    if (isOpen) {
-      // Verificar se o usuário está logado
-      const userData = localStorage.getItem('user');
-      if (userData) {
-        const parsedUser = JSON.parse(userData);
-        setUser(parsedUser);
-        setFormData(prev => ({
-          ...prev,
-          nome: parsedUser.nome_completo || '',
-          telefone: parsedUser.tel || ''
-        }));
-      }
-    }
-  }, [isOpen]);
-
-  const servicos = [
-    { id: 'corte', nome: 'Corte', preco: 'R$ 35,00' },
-    { id: 'barba', nome: 'Barba', preco: 'R$ 25,00' },
-    { id: 'cabelo-barba', nome: 'Cabelo e Barba', preco: 'R$ 60,00' },
-    { id: 'sombrancelha', nome: 'Sombrancelha', preco: 'R$ 15,00' },
-    { id: 'pezinho', nome: 'Pezinho', preco: 'R$ 10,00' }
-  ];
-
-  // Gera slots de horário (step em minutos)
-  const generateSlots = (start = "09:00", end = "20:00", stepMin = 60) => {
-    const [sh, sm] = start.split(":").map(Number);
-    const [eh, em] = end.split(":").map(Number);
-    const startMin = sh * 60 + sm;
-    const endMin = eh * 60 + em;
-    const out: string[] = [];
-    for (let m = startMin; m <= endMin; m += stepMin) {
-      const hh = String(Math.floor(m / 60)).padStart(2, "0");
-      const mm = String(m % 60).padStart(2, "0");
-      out.push(`${hh}:${mm}`);
+    // Preenche nome e telefone com os dados de quem está logado
+    if (isOpen && user) {
+      setFormData(prev => ({
+        ...prev,
+        nome: user.nome,
+        telefone: user.telefone || ''
+      }));
     }
-    return out;
-  };
+  }, [isOpen, user]);
+
+  const { servicos, loading: loadingServicos, erro: erroServicos } = useServicos();
 
-  const horarios = useMemo(() => generateSlots("09:00", "20:00", 60), []);
+  const { configuracoes } = useConfiguracoes();
+  const { agenda, funcionamento } = configuracoes;
+  const { feriados } = useFeriados();
+  const servicoSelecionado = servicos.find(s => s.id === formData.servico);
 
-  const [horariosDisponiveis, setHorariosDisponiveis] = useState<string[]>(horarios);
+  // Agendamentos (ou horários) já ocupados na data escolhida
+  const {
+    ocupados,
+    erro: erroOcupados,
+    carregando: carregandoOcupados,
+    recarregar: recarregarOcupados,
+  } = useHorariosOcupados(formData.data, formData.servico);
+  // Sem a lista de ocupados todos os horários pareceriam livres: não oferece nenhum
+  const ocupadosIndisponiveis = carregandoOcupados || erroOcupados !== undefined;
 
+  const { barbeiros } = useBarbeiros();
+  const barbeirosDoServico = useMemo(
+    () => barbeiros.filter(b => atendeServico(b, formData.servico)),
+    [barbeiros, formData.servico]
+  );
+  const barbeiroSelecionado = barbeiros.find(b => b.id === formData.barbeiro);
+
+  // Para cada início livre (em que o serviço cabe inteiro), os barbeiros que podem atender
+  const disponibilidade = useMemo<Record<string, string[]>>(() => {
+    if (!servicoSelecionado || !formData.data || ocupadosIndisponiveis) return {};
+    return calcularDisponibilidadePorBarbeiro({
+      expediente: expedienteReservavel(expedienteDoDia(formData.data, funcionamento, feriados), formData.data, agenda),
+      agendamentos: ocupados,
+      barbeiros: formData.barbeiro ? barbeirosDoServico.filter(b => b.id === formData.barbeiro) : barbeirosDoServico,
+      totalCadeiras: barbeiros.length,
+      servicos,
+      duracaoPadrao: agenda.duracaoPadraoMinutos,
+      duracao: servicoSelecionado.duracao,
+      intervaloMinutos: agenda.intervaloMinutos,
+    });
+  }, [servicoSelecionado, formData.data, formData.barbeiro, ocupados, ocupadosIndisponiveis, servicos, barbeiros, barbeirosDoServico, agenda, funcionamento, feriados]);
+
+  const horariosDisponiveis = useMemo(() => Object.keys(disponibilidade).sort(), [disponibilidade]);
+
+  // Descarta o barbeiro escolhido se ele não faz o serviço selecionado
   useEffect(() => {
-    // Consulta horários disponíveis diretamente do backend
-    async function fetchHorariosDisponiveis() {
-      if (!formData.data || !formData.servico) {
-        setHorariosDisponiveis(horarios);
+    if (formData.barbeiro && !barbeirosDoServico.some(b => b.id === formData.barbeiro)) {
+      setFormData(prev => ({ ...prev, barbeiro: '' }));
+    }
+  }, [barbeirosDoServico, formData.barbeiro]);
+
+  // Descarta o horário escolhido se ele deixou de caber (ex.: troca para um serviço mais longo)
+  useEffect(() => {
+    if (formData.horario && !horariosDisponiveis.includes(formData.horario)) {
+      setFormData(prev => ({ ...prev, horario: '' }));
+    }
+  }, [horariosDisponiveis, formData.horario]);
+
+  const [erroData, setErroData] = useState('');
+  const feriadoSelecionado = formData.data ? feriadoNaData(formData.data, feriados) : undefined;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    // O input de data não permite desabilitar dias específicos: recusamos dias fechados aqui
+    if (e.target.name === 'data') {
+      if (e.target.value && e.target.value > ultimoDiaReservavel(agenda)) {
+        setErroData(`Só é possível agendar até ${formatarData(ultimoDiaReservavel(agenda))}.`);
+        setFormData({ ...formData, data: '', horario: '' });
         return;
       }
-      try {
-        // Endpoint que retorna apenas horários disponíveis para a data e serviço
-        const res = await apiRequest(`/auterota/agendamentos?data=${formData.data}&servico=${formData.servico}`, {
-          method: 'GET',
-          headers: { 'Content-Type': 'application/json' },
-        });
-        if (res.success && Array.isArray(res.data)) {
-          // A API hoje retorna horários OCUPADOS (ou agendamentos com campo horario/hora).
-          // Vamos normalizar e filtrar esses horários do conjunto total para exibir APENAS DISPONÍVEIS.
-          const occupied = (res.data as any[])
-            .map((h) => {
-              if (typeof h === 'string') return h;
-              if (h && typeof h === 'object') return h.horario || h.hora || '';
-              return '';
-            })
-            .filter((v): v is string => typeof v === 'string' && v.length > 0);
-          const occupiedSet = new Set(occupied);
-          const available = horarios.filter((h) => !occupiedSet.has(h));
-          setHorariosDisponiveis(available.length > 0 ? available : []);
-        } else {
-          setHorariosDisponiveis(horarios);
-        }
-      } catch {
-        setHorariosDisponiveis(horarios);
+      if (e.target.value && estaFechado(e.target.value, funcionamento, feriados)) {
+        const feriado = feriadoNaData(e.target.value, feriados);
+        setErroData(feriado
+          ? `${feriado.nome}: a barbearia não abre neste feriado. Escolha outro dia.`
+          : 'A barbearia não abre nesta data. Escolha outro dia.');
+        setFormData({ ...formData, data: '', horario: '' });
+        return;
       }
+      setErroData('');
     }
-    fetchHorariosDisponiveis();
-  }, [formData.data, formData.servico, horarios]);
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
       [e.target.name]: e.target.value
@@ -122,69 +161,96 @@ export default function AgendamentoModal({ isOpen, onClose, onLoginRequired }: A
       return;
     }
 
+    // O horário pode ter passado enquanto o cliente preenchia o formulário
+    const invalido = validarInicio(formData.data, formData.horario, agenda);
+    if (invalido) {
+      setErroEnvio(invalido);
+      setFormData(prev => ({ ...prev, horario: '' }));
+      return;
+    }
+
     setLoading(true);
+    setErroEnvio('');
+
+    // "Qualquer um": fica com o primeiro barbeiro livre no horário escolhido
+    const barbeiroId = formData.barbeiro || disponibilidade[formData.horario]?.[0] || undefined;
 
     try {
-      // Tentar salvar no backend primeiro
-      try {
-        const agendamentoData = {
-          nome: formData.nome,
-          telefone: formData.telefone,
-          servico: formData.servico,
-          data: formData.data,
-          horario: formData.horario,
-          usuario_id: user.id
-        };
-        await apiRequest(API_CONFIG.endpoints.agendamentos.criar, {
-          method: 'POST',
-          body: JSON.stringify(agendamentoData)
-        });
-      } catch (apiError) {
-        // Se for erro de autenticação, redirecionar para login
-        if (apiError instanceof Error && (apiError.message.includes('401') || apiError.message.includes('não autenticado'))) {
-          alert('Sua sessão expirou. Faça login novamente para continuar.');
-          onClose();
-          onLoginRequired();
-          return;
-        }
-        // Para outros erros, continuar com WhatsApp mas alertar o usuário
-        console.warn('Agendamento não foi salvo no sistema, mas será enviado via WhatsApp');
-      }
-      
-      // Criar mensagem para WhatsApp
-      const servicoSelecionado = servicos.find(s => s.id === formData.servico);
-      const dataFormatada = new Date(formData.data).toLocaleDateString('pt-BR');
-      
-      const mensagem = `Olá! Gostaria de confirmar meu agendamento:
-        
-👤 Nome: ${formData.nome}
-📞 Telefone: ${formData.telefone}
-✂️ Serviço: ${servicoSelecionado?.nome} (${servicoSelecionado?.preco})
-📅 Data: ${dataFormatada}
-🕐 Horário: ${formData.horario}
-
-Agendamento solicitado via site!`;
-
-      // Redirecionar para WhatsApp
-      const whatsappUrl = `https://wa.me/5511999999999?text=${encodeURIComponent(mensagem)}`;
-      window.open(whatsappUrl, '_blank');
-      
-      alert('Agendamento processado! Você será redirecionado para o WhatsApp para confirmar.');
-      onClose();
-      
+      const resultado = await agendarOuEnfileirar({
+        nome: formData.nome,
+        telefone: formData.telefone,
+        servico: formData.servico,
+        data: formData.data,
+        horario: formData.horario,
+        duracao: servicoSelecionado?.duracao,
+        barbeiro: barbeiroId,
+        usuario_id: user.id,
+        status: 'pendente' // a barbearia confirma pelo painel
+      });
+      const agendamento = resultado.enviado ? resultado.agendamento : resultado.pendente.agendamento;
+
+      // Guarda o que foi agendado (nome e preço do serviço no momento do agendamento)
+      setConfirmacao({
+        codigo: resultado.enviado ? codigoDoAgendamento(resultado.agendamento) : '',
+        servico: servicoSelecionado?.nome || formData.servico,
+        preco: servicoSelecionado ? formatarPreco(precoVigente(servicoSelecionado)) : '',
+        data: agendamento.data || formData.data,
+        horario: agendamento.horario || formData.horario,
+        barbeiro: barbeiros.find(b => b.id === agendamento.barbeiro)?.nome,
+        status: agendamento.status || 'pendente',
+        pendenteEnvio: !resultado.enviado,
+      });
+
       // Limpar apenas campos de agendamento
       setFormData(prev => ({
         ...prev,
         servico: '',
         data: '',
-        horario: ''
+        horario: '',
+        barbeiro: ''
       }));
     } catch (error) {
-      console.error('Erro ao agendar:', error);
-      alert('Erro ao processar agendamento. Tente novamente.');
+      // Sessão expirada: pede login de novo
+      if (ehErroApi(error, 'nao_autenticado')) {
+        alert(MENSAGENS_ERRO.nao_autenticado);
+        onClose();
+        onLoginRequired();
+        return;
+      }
+      if (ehErroApi(error, 'conflito', 'validacao')) {
+        // Alguém ocupou o horário (409) ou ele saiu da janela de agendamento (422): recarrega a agenda
+        setErroEnvio(error.message);
+        setFormData(prev => ({ ...prev, horario: '' }));
+        recarregarOcupados();
+      } else {
+        setErroEnvio(mensagemDeErro(error, 'Não foi possível registrar o agendamento. Tente novamente.'));
+      }
+    } finally {
+      setLoading(false);
     }
+  };
 
-    setLoading(false);
+  // Opcional: envia o resumo do agendamento já registrado para a barbearia no WhatsApp
+  const enviarWhatsApp = (c: Confirmacao) => {
+    const { contato } = configuracoes;
+    const mensagem = preencherModelo(contato.mensagens.agendamento, {
+      codigo: c.codigo,
+      nome: formData.nome,
+      telefone: formData.telefone,
+      servico: c.servico,
+      preco: c.preco,
+      data: formatarData(c.data),
+      horario: c.horario,
+      barbeiro: c.barbeiro,
+    });
+    const link = linkWhatsApp(contato.whatsapp, mensagem);
+    if (link) window.open(link, '_blank');
+  };
+
+  const fechar = () => {
+    setConfirmacao(null);
+    setErroEnvio('');
+    onClose();
   };
 
   if (!isOpen) return null;
@@ -223,6 +289,95 @@ Agendamento solicitado via site!`;
       </div>
     );
   }
+
+  if (confirmacao) {
+    return (
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999] flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto p-6">
+          <div className="text-center mb-6">
+            {confirmacao.pendenteEnvio ? (
+              <>
+                <svg className="w-16 h-16 text-yellow-500 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <h2 className="text-2xl font-bold text-gray-900 mb-1">Pendente de envio</h2>
+                <p className="text-sm text-gray-600">
+                  Você está sem conexão. Guardamos seu pedido e vamos enviá-lo à barbearia assim que a internet voltar. Se o horário for ocupado antes disso, avisaremos aqui no site.
+                </p>
+              </>
+            ) : (
+              <>
+                <svg className="w-16 h-16 text-green-600 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <h2 className="text-2xl font-bold text-gray-900 mb-1">Agendamento registrado!</h2>
+                <p className="text-sm text-gray-600">
+                  {confirmacao.status === 'pendente' ? 'A barbearia vai confirmar seu horário em breve.' : 'Seu horário está confirmado.'}
+                </p>
+              </>
+            )}
+          </div>
+
+          <dl className="bg-gray-50 border rounded-lg p-4 space-y-2 text-sm mb-6">
+            {confirmacao.codigo && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Código</dt>
+                <dd className="font-mono font-bold">{confirmacao.codigo}</dd>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Serviço</dt>
+              <dd className="font-medium">{confirmacao.servico}</dd>
+            </div>
+            {confirmacao.preco && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Valor</dt>
+                <dd className="font-medium">{confirmacao.preco}</dd>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Data</dt>
+              <dd className="font-medium">{formatarData(confirmacao.data)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Horário</dt>
+              <dd className="font-medium">{confirmacao.horario}</dd>
+            </div>
+            {confirmacao.barbeiro && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Barbeiro</dt>
+                <dd className="font-medium">{confirmacao.barbeiro}</dd>
+              </div>
+            )}
+          </dl>
+
+          <div className="space-y-3">
+            {numeroWhatsApp(configuracoes.contato.whatsapp) && (
+              <button
+                onClick={() => enviarWhatsApp(confirmacao)}
+                className="w-full px-4 py-2 border border-green-600 text-green-700 rounded-md hover:bg-green-50 transition-colors font-medium"
+              >
+                Enviar resumo no WhatsApp
+              </button>
+            )}
+            <Link
+              href="/meus-agendamentos"
+              className="block w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-center"
+            >
+              Ver meus agendamentos
+            </Link>
+            <button
+              onClick={fechar}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+            >
+              Fechar
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999] flex items-center justify-center p-4">
       <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -230,7 +385,7 @@ Agendamento solicitado via site!`;
         <div className="flex items-center justify-between p-6 border-b">
           <div>
             <h2 className="text-2xl font-bold text-gray-900">Agendar Horário</h2>
-            <p className="text-sm text-gray-600">Olá, {user?.nome_completo || 'Usuário'}!</p>
+            <p className="text-sm text-gray-600">Olá, {user?.nome || 'Usuário'}!</p>
           </div>
           <button
             onClick={onClose}
@@ -282,17 +437,58 @@ Agendamento solicitado via site!`;
               value={formData.servico}
               onChange={handleChange}
               required
+              disabled={loadingServicos}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              <option value="">Selecione um serviço</option>
+              <option value="">{loadingServicos ? 'Carregando serviços...' : 'Selecione um serviço'}</option>
               {servicos.map(servico => (
                 <option key={servico.id} value={servico.id}>
-                  {servico.nome} - {servico.preco}
+                  {servico.nome} - {formatarPreco(precoVigente(servico))}
                 </option>
               ))}
             </select>
+            {erroServicos && (
+              <p className="text-red-500 text-sm mt-2">{erroServicos}</p>
+            )}
           </div>
 
+          {/* Barbeiro */}
+          {barbeirosDoServico.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Barbeiro
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, barbeiro: '' }))}
+                  className={`flex items-center gap-2 px-3 py-2 border rounded-md text-sm text-left ${!formData.barbeiro ? 'border-blue-600 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'}`}
+                >
+                  <span className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center">💈</span>
+                  Qualquer um
+                </button>
+                {barbeirosDoServico.map(b => (
+                  <button
+                    key={b.id}
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, barbeiro: b.id }))}
+                    className={`flex items-center gap-2 px-3 py-2 border rounded-md text-sm text-left ${formData.barbeiro === b.id ? 'border-blue-600 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'}`}
+                  >
+                    {b.foto ? (
+                      <Image src={b.foto} alt={b.nome} width={32} height={32} className="w-8 h-8 rounded-full object-cover" />
+                    ) : (
+                      <span className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center font-semibold text-gray-600">{b.nome.charAt(0)}</span>
+                    )}
+                    {b.nome}
+                  </button>
+                ))}
+              </div>
+              {barbeiroSelecionado?.bio && (
+                <p className="text-xs text-gray-500 mt-2">{barbeiroSelecionado.bio}</p>
+              )}
+            </div>
+          )}
+
           {/* Data */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -304,9 +500,18 @@ Agendamento solicitado via site!`;
               value={formData.data}
               onChange={handleChange}
               required
-              min={new Date().toISOString().split('T')[0]}
+              min={hojeISO()}
+              max={ultimoDiaReservavel(agenda)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
+            {erroData && (
+              <p className="text-red-500 text-sm mt-2">{erroData}</p>
+            )}
+            {feriadoSelecionado && !feriadoSelecionado.fechado && (
+              <p className="text-amber-600 text-sm mt-2">
+                {feriadoSelecionado.nome}: horário especial ({descreverFaixas(feriadoSelecionado.faixas || [])}).
+              </p>
+            )}
           </div>
 
           {/* Horário */}
@@ -322,18 +527,39 @@ Agendamento solicitado via site!`;
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               disabled={horariosDisponiveis.length === 0}
             >
-              <option value="">Selecione um horário</option>
+              <option value="">{formData.servico ? 'Selecione um horário' : 'Selecione o serviço primeiro'}</option>
               {horariosDisponiveis.map((horario, idx) => (
                 <option key={`${horario}-${idx}`} value={horario}>
                   {horario}
                 </option>
               ))}
             </select>
-            {horariosDisponiveis.length === 0 && (
+            {formData.data && formData.servico && erroOcupados !== undefined ? (
+              <p className="text-red-500 text-sm mt-2">
+                Não foi possível carregar os horários livres.{' '}
+                <button type="button" onClick={recarregarOcupados} className="underline">Tentar de novo</button>
+              </p>
+            ) : formData.data && formData.servico && carregandoOcupados ? (
+              <p className="text-gray-500 text-sm mt-2">Carregando horários livres...</p>
+            ) : formData.data && formData.servico && horariosDisponiveis.length === 0 && (
               <p className="text-red-500 text-sm mt-2">Nenhum horário disponível para esta data e serviço.</p>
             )}
+            {servicoSelecionado && (
+              <p className="text-xs text-gray-500 mt-1">Duração aproximada: {servicoSelecionado.duracao} min</p>
+            )}
           </div>
 
+          {/* Regras de cancelamento e remarcação */}
+          <ul className="text-xs text-gray-500 list-disc pl-5 space-y-1">
+            {descreverPolitica(configuracoes.politica).map((r) => <li key={r}>{r}</li>)}
+          </ul>
+
+          {erroEnvio && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {erroEnvio}
+            </div>
+          )}
+
           {/* Buttons */}
           <div className="flex gap-4 pt-4">
             <button
@@ -348,7 +574,7 @@ Agendamento solicitado via site!`;
               disabled={loading || horariosDisponiveis.length === 0}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Agendando...' : 'Agendar via WhatsApp'}
+              {loading ? 'Agendando...' : 'Confirmar Agendamento'}
             </button>
           </div>
         </form>
@@ -0,0 +1,94 @@
+"use client";
+import { createContext, useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import type { LoginData, Papel, User } from "@/app/types/index";
+import type { Sessao } from "@/app/utils/contrato";
+import { login as loginApi } from "@/app/utils/api";
+import { temPermissao, type Permissao } from "@/app/utils/permissoes";
+import {
+  assinarSessao,
+  atualizarUsuarioSalvo,
+  CHAVES_SESSAO,
+  claimsDoToken,
+  encerrarSessao,
+  marcarSessaoExpirada,
+  recarregarSessao,
+  salvarSessao,
+  SESSAO_VAZIA,
+  sessaoAtual,
+  tokenExpirado,
+} from "@/app/utils/sessao";
+
+export interface AuthContextValue {
+  user: User | null;
+  token: string | null;
+  roles: Papel[];
+  pode: (permissao: Permissao) => boolean; // ver a matriz em utils/permissoes
+  pronto: boolean; // false até ler a sessão salva; antes disso não decida nada
+  expirada: boolean; // token recusado pelo backend ou vencido; pedir novo login
+  login: (credenciais: LoginData) => Promise<Sessao>;
+  // Para sessões obtidas por outro caminho (login do painel, Google)
+  iniciarSessao: (sessao: Pick<Sessao, 'usuario' | 'token'>) => void;
+  atualizarUsuario: (dados: Partial<User>) => void;
+  logout: () => void;
+  refresh: () => void;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+const MAIOR_ESPERA_MS = 2 ** 31 - 1; // limite do setTimeout
+
+/**
+ * Sessão do usuário para o app inteiro (montado no layout). Lê e grava pelo utils/sessao
+ * e acompanha login e logout feitos em outras abas pelo evento `storage`.
+ */
+export default function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { usuario, token, pronto, expirada } = useSyncExternalStore(assinarSessao, sessaoAtual, () => SESSAO_VAZIA);
+
+  const refresh = useCallback(() => {
+    recarregarSessao();
+    if (sessaoAtual().token && tokenExpirado(sessaoAtual().token)) encerrarSessao();
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const aoMudarStorage = (e: StorageEvent) => {
+      // key null: outra aba limpou o storage inteiro
+      if (e.key === null || CHAVES_SESSAO.includes(e.key)) recarregarSessao();
+    };
+    window.addEventListener("storage", aoMudarStorage);
+    return () => window.removeEventListener("storage", aoMudarStorage);
+  }, [refresh]);
+
+  // Marca a sessão como expirada quando o `exp` do token passar, com a tela aberta
+  useEffect(() => {
+    const exp = Number(claimsDoToken(token)?.exp);
+    const restante = exp * 1000 - Date.now();
+    if (!exp || restante > MAIOR_ESPERA_MS) return;
+    const timer = setTimeout(marcarSessaoExpirada, Math.max(0, restante));
+    return () => clearTimeout(timer);
+  }, [token]);
+
+  const login = useCallback(async (credenciais: LoginData) => {
+    const sessao = await loginApi(credenciais);
+    salvarSessao(sessao.usuario, sessao.token);
+    return sessao;
+  }, []);
+
+  const iniciarSessao = useCallback((sessao: Pick<Sessao, 'usuario' | 'token'>) => salvarSessao(sessao.usuario, sessao.token), []);
+
+  const valor = useMemo<AuthContextValue>(() => ({
+    user: usuario,
+    token,
+    roles: usuario?.papeis ?? [],
+    pode: (permissao: Permissao) => temPermissao(usuario?.papeis ?? [], permissao),
+    pronto,
+    expirada,
+    login,
+    iniciarSessao,
+    atualizarUsuario: atualizarUsuarioSalvo,
+    logout: encerrarSessao,
+    refresh,
+  }), [usuario, token, pronto, expirada, login, iniciarSessao, refresh]);
+
+  return <AuthContext.Provider value={valor}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,56 @@
+"use client";
+import { useEffect } from "react";
+import { useAgendamentosPendentes } from "@/app/hooks/useAgendamentosPendentes";
+import { useAuth } from "@/app/hooks/useAuth";
+import { descartarPendente, reenviarPendentes, tentarNovamente } from "@/app/utils/filaOffline";
+import { formatarData } from "@/app/utils/datas";
+
+/**
+ * Reenvia a fila offline quando o navegador volta a ficar online (e ao abrir o site ou
+ * trocar de conta) e mostra o que ainda não chegou à barbearia, inclusive horários
+ * recusados no reenvio. Só aparecem os pendentes do usuário logado.
+ */
+export default function AvisoPendentes() {
+  const { user } = useAuth();
+  const { pendentes } = useAgendamentosPendentes();
+
+  useEffect(() => {
+    if (navigator.onLine) reenviarPendentes();
+    const aoVoltar = () => reenviarPendentes();
+    window.addEventListener("online", aoVoltar);
+    return () => window.removeEventListener("online", aoVoltar);
+  }, [user?.id]);
+
+  if (pendentes.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[calc(100%-2rem)] max-w-sm space-y-2">
+      {pendentes.map((item) => {
+        const { data = '', horario } = item.agendamento;
+        const quando = `${formatarData(data)} às ${horario}`;
+        return (
+          <div key={item.idLocal} role="status" className={`rounded-lg shadow-lg border p-3 text-sm ${item.situacao === 'pendente' ? 'bg-white' : 'bg-red-50 border-red-300'}`}>
+            {item.situacao === 'pendente' ? (
+              <p>
+                <span className="font-semibold">Pendente de envio:</span> {quando}. Vamos enviar assim que sua conexão voltar.
+              </p>
+            ) : (
+              <>
+                <p className="font-semibold text-red-700">Não foi possível agendar {quando}.</p>
+                {item.mensagem && <p className="text-red-700 mt-1">{item.mensagem}</p>}
+                <div className="flex gap-2 mt-2">
+                  {item.situacao === 'erro' && (
+                    <button className="px-3 py-1 rounded bg-blue-600 text-white text-xs" onClick={() => tentarNovamente(item)}>Tentar novamente</button>
+                  )}
+                  <button className="px-3 py-1 rounded border text-xs" onClick={() => descartarPendente(item.idLocal)}>
+                    {item.situacao === 'conflito' ? 'Entendi, vou escolher outro horário' : 'Descartar'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
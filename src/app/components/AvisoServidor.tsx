@@ -0,0 +1,28 @@
+"use client";
+import { useEffect } from "react";
+import { acordarServidor } from "@/app/utils/api";
+import { useEstadoServidor } from "@/app/hooks/useEstadoServidor";
+
+// Faixa no rodapé da tela enquanto o backend acorda ou quando ele não responde
+export default function AvisoServidor() {
+  const estado = useEstadoServidor();
+
+  useEffect(() => {
+    acordarServidor();
+  }, []);
+
+  if (estado === 'pronto') return null;
+
+  return (
+    <div role="status" className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-50 max-w-md w-[calc(100%-2rem)] px-4 py-3 rounded-lg shadow-lg text-sm flex items-center gap-3 ${estado === 'acordando' ? 'bg-yellow-400 text-black' : 'bg-red-600 text-white'}`}>
+      {estado === 'acordando' ? (
+        <>
+          <span className="inline-block w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin shrink-0" />
+          <span>Acordando o servidor... O primeiro acesso do dia pode levar até um minuto.</span>
+        </>
+      ) : (
+        <span>Não conseguimos falar com o servidor. Verifique sua internet e tente novamente em instantes.</span>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 "use client";
 import { useState, useEffect, useRef } from "react";
-import { apiRequest, API_CONFIG } from "@/app/utils/api";
+import { getGoogleConfig, iniciarCadastro, verificarCodigo } from "@/app/utils/api";
 import { openPopup } from "@/app/utils/popup";
+import { ehErroApi, mensagemDeErro } from "@/app/utils/erros";
+import { criarLogger } from "@/app/utils/log";
 
 interface CadastroModalProps {
   isOpen: boolean;
@@ -9,6 +11,8 @@ interface CadastroModalProps {
   onSwitchToLogin: () => void;
 }
 
+const log = criarLogger('cadastro');
+
 export default function CadastroModal({ isOpen, onClose, onSwitchToLogin }: CadastroModalProps) {
   const [step, setStep] = useState<'cadastro' | 'verificacao'>('cadastro');
   const [formData, setFormData] = useState({
@@ -55,7 +59,7 @@ export default function CadastroModal({ isOpen, onClose, onSwitchToLogin }: Cada
         // Preencher dados do usuário no formulário
         setFormData((prev) => ({
           ...prev,
-          nome: event.data.user.nome_completo || '',
+          nome: event.data.user.nome || '',
           email: event.data.user.email || '',
           password: '',
           confirmarSenha: ''
@@ -83,11 +87,9 @@ export default function CadastroModal({ isOpen, onClose, onSwitchToLogin }: Cada
   };  const handleGoogleSignup = async () => {
     try {
       // Buscar configurações do Google OAuth do backend
-      const googleConfig = await apiRequest(API_CONFIG.endpoints.auth.googleConfig, {
-        method: 'GET',
-      });
+      const googleConfig = await getGoogleConfig();
       
-      if (!googleConfig || !googleConfig.clientId) {
+      if (!googleConfig.clientId) {
         alert('Google OAuth não está configurado no servidor.');
         return;
       }
@@ -99,8 +101,8 @@ export default function CadastroModal({ isOpen, onClose, onSwitchToLogin }: Cada
       const googleAuthUrl = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${googleConfig.clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&scope=openid%20profile%20email&response_type=code&state=signup`;
       googlePopupRef.current = openPopup(googleAuthUrl, 'Cadastro Google', 500, 600);
     } catch (error) {
-      console.error('Erro ao buscar configurações do Google:', error);
-      if (error instanceof Error && error.message.includes('404')) {
+      log.error('Erro ao buscar configurações do Google:', error);
+      if (ehErroApi(error, 'nao_encontrado')) {
         alert('Google OAuth não está disponível no momento. Use o formulário abaixo.');
       } else {
         alert('Erro ao configurar autenticação com Google. Tente novamente.');
@@ -127,38 +129,31 @@ export default function CadastroModal({ isOpen, onClose, onSwitchToLogin }: Cada
     }
 
     try {
-      const response = await apiRequest(API_CONFIG.endpoints.auth.cadastro, {
-        method: 'POST',
-        body: JSON.stringify({
-          nome_completo: formData.nome,
-          username: formData.email, // Usando email como username
-          password: formData.password,
-          tel: formData.telefone,
-          email: formData.email
-        }),
+      const response = await iniciarCadastro({
+        nome: formData.nome,
+        email: formData.email, // também é o nome de usuário
+        password: formData.password,
+        telefone: formData.telefone,
       });
 
       // Se retornar código de desenvolvimento, preencher automaticamente
-      if (response.codigo_dev) {
-        const codigo = response.codigo_dev;
-        if (process.env.NODE_ENV === 'development') {
-          console.log('🔐 Código de desenvolvimento detectado');
-        }
-        setCodigoVerificacao(codigo);
-        
-        // Mostrar mensagem específica para modo desenvolvimento
-        if (response.debug && process.env.NODE_ENV === 'development') {
-          console.log('ℹ️ Modo desenvolvimento ativo');
-        }
+      if (response.codigoDev) {
+        log.debug('🔐 Código de desenvolvimento detectado');
+        setCodigoVerificacao(response.codigoDev);
       }
       
       // Ir para o step de verificação
       setStep('verificacao');
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Erro ao conectar com o servidor';
-      setErro(errorMessage);
-      console.error('Erro no cadastro:', error);
+      if (ehErroApi(error, 'validacao') && Object.keys(error.campos).length > 0) {
+        setErro(Object.values(error.campos).join(' '));
+      } else if (ehErroApi(error, 'conflito')) {
+        setErro('Já existe uma conta com este e-mail. Faça login ou use outro e-mail.');
+      } else {
+        setErro(mensagemDeErro(error, 'Erro ao conectar com o servidor'));
+      }
+      log.error('Erro no cadastro:', error);
     }
 
     setLoading(false);
@@ -177,12 +172,9 @@ export default function CadastroModal({ isOpen, onClose, onSwitchToLogin }: Cada
 
     try {
       // Chamar endpoint de verificação
-      const response = await apiRequest(API_CONFIG.endpoints.auth.verificarCodigo, {
-        method: 'POST',
-        body: JSON.stringify({
-          email: formData.email,
-          codigo: codigoVerificacao
-        }),
+      const response = await verificarCodigo({
+        email: formData.email,
+        codigo: codigoVerificacao
       });
 
       if (response.success) {
@@ -195,7 +187,7 @@ export default function CadastroModal({ isOpen, onClose, onSwitchToLogin }: Cada
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Erro ao verificar código';
       setErro(errorMessage);
-      console.error('Erro na verificação:', error);
+      log.error('Erro na verificação:', error);
     }
 
     setLoading(false);
@@ -19,8 +19,8 @@ export default function Header() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  // esconder header em rotas /admin (hooks must be called before this early return)
-  if (pathname && pathname.startsWith('/admin')) return null;
+  // esconder header em rotas /admin e na área do cliente, que não têm as âncoras da home (hooks must be called before this early return)
+  if (pathname && (pathname.startsWith('/admin') || pathname.startsWith('/meus-agendamentos'))) return null;
   return (
     <header className={`fixed top-0 left-0 right-0 z-50 transition-all duration-30 ${
       isScrolled 
@@ -1,8 +1,11 @@
 "use client";
 import { useState, useEffect, useCallback } from "react";
-import { apiRequest, API_CONFIG } from "@/app/utils/api";
-import { User } from "@/app/types";
+import { getGoogleConfig } from "@/app/utils/api";
+import { useAuth } from "@/app/hooks/useAuth";
+import type { User } from "@/app/types/index";
 import { openPopup } from "@/app/utils/popup";
+import { ehErroApi, mensagemDeErro } from "@/app/utils/erros";
+import { criarLogger } from "@/app/utils/log";
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -11,6 +14,8 @@ interface LoginModalProps {
   onLoginSuccess: (userData: User) => void;
 }
 
+const log = criarLogger('login');
+
 export default function LoginModal({ isOpen, onClose, onSwitchToCadastro, onLoginSuccess }: LoginModalProps) {
   const [formData, setFormData] = useState({
     email: '',
@@ -18,6 +23,7 @@ export default function LoginModal({ isOpen, onClose, onSwitchToCadastro, onLogi
   });
   const [loading, setLoading] = useState(false);
   const [erro, setErro] = useState('');
+  const { login, iniciarSessao } = useAuth();
 
   const resetState = useCallback(() => {
     setFormData({ email: '', password: '' });
@@ -52,8 +58,7 @@ export default function LoginModal({ isOpen, onClose, onSwitchToCadastro, onLogi
       if (event.origin !== window.location.origin) return;
 
       if (event.data?.type === 'google-auth-success') {
-        localStorage.setItem('user', JSON.stringify(event.data.user));
-        localStorage.setItem('token', event.data.token);
+        iniciarSessao({ usuario: event.data.user, token: event.data.token });
         onLoginSuccess(event.data.user);
         handleClose();
       } else if (event.data?.type === 'google-auth-error') {
@@ -66,17 +71,15 @@ export default function LoginModal({ isOpen, onClose, onSwitchToCadastro, onLogi
     return () => {
       window.removeEventListener('message', handleAuthMessage);
     };
-  }, [onLoginSuccess, handleClose]);
+  }, [onLoginSuccess, handleClose, iniciarSessao]);
 
   const handleGoogleLogin = useCallback(async () => {
     setErro(''); // Limpar erros anteriores
     try {
       // Buscar configurações do Google OAuth do backend
-      const googleConfig = await apiRequest(API_CONFIG.endpoints.auth.googleConfig, {
-        method: 'GET',
-      });
+      const googleConfig = await getGoogleConfig();
       
-      if (!googleConfig || !googleConfig.clientId) {
+      if (!googleConfig.clientId) {
         setErro('Google OAuth não está configurado no servidor.');
         return;
       }
@@ -90,9 +93,9 @@ export default function LoginModal({ isOpen, onClose, onSwitchToCadastro, onLogi
       openPopup(googleAuthUrl, 'Login Google', 500, 600);
 
     } catch (error) {
-      console.error('Erro ao buscar configurações do Google:', error);
+      log.error('Erro ao buscar configurações do Google:', error);
       // Se for 404, significa que o Google OAuth não está implementado no backend
-      if (error instanceof Error && error.message.includes('404')) {
+      if (ehErroApi(error, 'nao_encontrado')) {
         setErro('Google OAuth não está disponível no momento. Use email e senha.');
       } else {
         setErro('Erro ao configurar autenticação com Google. Tente novamente.');
@@ -104,40 +107,27 @@ export default function LoginModal({ isOpen, onClose, onSwitchToCadastro, onLogi
     setLoading(true);
     setErro("");
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log('🔐 Iniciando processo de login...');
-    }
+    log.debug('🔐 Iniciando processo de login...');
 
     try {      const loginData = {
-        username: formData.email,
+        email: formData.email,
         password: formData.password
       };
       
-      if (process.env.NODE_ENV === 'development') {
-        console.log('📤 Enviando dados de login...');
-      }
+      log.debug('📤 Enviando dados de login...');
       
-      const response = await apiRequest(API_CONFIG.endpoints.auth.login, {
-        method: 'POST',
-        body: JSON.stringify(loginData),
-      });
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log('✅ Login realizado com sucesso');
-      }
+      // Salva a sessão para o app inteiro (e para as outras abas)
+      const sessao = await login(loginData);
 
-      // Login realizado com sucesso
-      localStorage.setItem("user", JSON.stringify(response.usuario));
-      localStorage.setItem("token", response.token);
+      log.debug('✅ Login realizado com sucesso');
       
-      onLoginSuccess(response.usuario);
+      onLoginSuccess(sessao.usuario);
       handleClose(); // Limpa o estado e fecha o modal
       
     } catch (error) {
-      console.error('❌ Erro no login:', error);
-      const errorMessage = error instanceof Error ? error.message : "Erro ao conectar com o servidor";
-      setErro(errorMessage);
-      console.error("Erro no login:", error);
+      log.error('❌ Erro no login:', error);
+      // No login, 401 é credencial errada, não sessão expirada
+      setErro(ehErroApi(error, 'nao_autenticado') ? 'E-mail ou senha incorretos.' : mensagemDeErro(error, "Erro ao conectar com o servidor"));
     }
 
     setLoading(false);
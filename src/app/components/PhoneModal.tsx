@@ -1,6 +1,8 @@
 "use client";
 import { useState } from "react";
-import { apiRequest } from "@/app/utils/api";
+import { atualizarTelefone } from "@/app/utils/api";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useAuth } from "@/app/hooks/useAuth";
 
 interface PhoneModalProps {
   isOpen: boolean;
@@ -12,6 +14,7 @@ export default function PhoneModal({ isOpen, onClose, onSuccess }: PhoneModalPro
   const [telefone, setTelefone] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const { atualizarUsuario } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,29 +27,18 @@ export default function PhoneModal({ isOpen, onClose, onSuccess }: PhoneModalPro
     setError("");
 
     try {
-      const user = JSON.parse(localStorage.getItem('user') || '{}');
-      const token = localStorage.getItem('token');
-
-      // Atualizar telefone no backend
-      const response = await apiRequest('/auterota/atualizar-telefone', {
-        method: 'PUT',
-        body: JSON.stringify({ telefone }),
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
+      // Atualizar telefone no backend (o token vai pelo apiRequest: rota autenticada)
+      const response = await atualizarTelefone({ telefone });
 
       if (response.success) {
         // Atualizar dados locais
-        const updatedUser = { ...user, tel: telefone, telefone };
-        localStorage.setItem('user', JSON.stringify(updatedUser));
+        atualizarUsuario({ telefone });
         onSuccess();
       } else {
         setError(response.message || 'Erro ao atualizar telefone');
       }
-    } catch (err: any) {
-      setError(err.message || 'Erro ao atualizar telefone');
+    } catch (error) {
+      setError(mensagemDeErro(error, 'Erro ao atualizar telefone'));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,191 @@
+"use client";
+import { useMemo, useState } from "react";
+import { atualizarAgendamento } from "@/app/utils/api";
+import type { AgendamentoData } from "@/app/types/index";
+import { useServicos } from "@/app/hooks/useServicos";
+import { nomeDoServico } from "@/app/utils/servicos";
+import { useConfiguracoes } from "@/app/hooks/useConfiguracoes";
+import { useFeriados } from "@/app/hooks/useFeriados";
+import { useBarbeiros } from "@/app/hooks/useBarbeiros";
+import { useHorariosOcupados } from "@/app/hooks/useHorariosOcupados";
+import { atendeServico, nomeDoBarbeiro } from "@/app/utils/barbeiros";
+import { calcularDisponibilidadePorBarbeiro, duracaoDoAgendamento, expedienteReservavel, ultimoDiaReservavel, validarInicio } from "@/app/utils/agenda";
+import { estaFechado, expedienteDoDia } from "@/app/utils/funcionamento";
+import { feriadoNaData } from "@/app/utils/feriados";
+import { registrarAlteracao } from "@/app/utils/politica";
+import { formatarData, hojeISO } from "@/app/utils/datas";
+import { ehErroApi, mensagemDeErro } from "@/app/utils/erros";
+
+interface RemarcarAgendamentoModalProps {
+  agendamento: AgendamentoData;
+  onClose: () => void;
+  onRemarcado: () => void;
+}
+
+export default function RemarcarAgendamentoModal({ agendamento, onClose, onRemarcado }: RemarcarAgendamentoModalProps) {
+  const [data, setData] = useState(agendamento.data);
+  const [horario, setHorario] = useState('');
+  const [erroData, setErroData] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { servicos } = useServicos({ incluirInativos: true });
+  const { barbeiros } = useBarbeiros();
+  const { configuracoes } = useConfiguracoes();
+  const { agenda, funcionamento } = configuracoes;
+  const { feriados } = useFeriados();
+
+  // Só os horários ocupados da data (sem dados dos outros clientes); o próprio agendamento sai pelo ignorarId
+  const {
+    ocupados,
+    erro: erroOcupados,
+    carregando: carregandoOcupados,
+    recarregar: recarregarOcupados,
+  } = useHorariosOcupados(data, agendamento.servico);
+  // Sem a lista de ocupados todos os horários pareceriam livres: não oferece nenhum
+  const ocupadosIndisponiveis = carregandoOcupados || erroOcupados !== undefined;
+
+  // Remarcação mantém o barbeiro escolhido; sem barbeiro, qualquer um que faça o serviço
+  const disponibilidade = useMemo<Record<string, string[]>>(() => {
+    if (!data || ocupadosIndisponiveis) return {};
+    const candidatos = barbeiros.filter(b => atendeServico(b, agendamento.servico));
+    return calcularDisponibilidadePorBarbeiro({
+      expediente: expedienteReservavel(expedienteDoDia(data, funcionamento, feriados), data, agenda),
+      agendamentos: ocupados,
+      barbeiros: agendamento.barbeiro ? candidatos.filter(b => b.id === agendamento.barbeiro) : candidatos,
+      totalCadeiras: barbeiros.length,
+      servicos,
+      duracaoPadrao: agenda.duracaoPadraoMinutos,
+      duracao: duracaoDoAgendamento(agendamento, servicos, agenda.duracaoPadraoMinutos),
+      intervaloMinutos: agenda.intervaloMinutos,
+      ignorarId: agendamento.id,
+    });
+  }, [data, agendamento, ocupados, ocupadosIndisponiveis, servicos, barbeiros, agenda, funcionamento, feriados]);
+
+  const horariosDisponiveis = useMemo(
+    () => Object.keys(disponibilidade)
+      .sort()
+      .filter(h => !(data === agendamento.data && h === agendamento.horario)),
+    [disponibilidade, data, agendamento.data, agendamento.horario]
+  );
+
+  function handleDataChange(valor: string) {
+    setHorario('');
+    if (valor && valor > ultimoDiaReservavel(agenda)) {
+      setErroData(`Só é possível agendar até ${formatarData(ultimoDiaReservavel(agenda))}.`);
+      setData('');
+      return;
+    }
+    if (valor && estaFechado(valor, funcionamento, feriados)) {
+      const feriado = feriadoNaData(valor, feriados);
+      setErroData(feriado
+        ? `${feriado.nome}: a barbearia não abre neste feriado. Escolha outro dia.`
+        : 'A barbearia não abre nesta data. Escolha outro dia.');
+      setData('');
+      return;
+    }
+    setErroData('');
+    setData(valor);
+  }
+
+  async function handleSave() {
+    if (!agendamento.id) return;
+    if (!data || !horario) return alert('Escolha a nova data e o novo horário.');
+    const invalido = validarInicio(data, horario, agenda);
+    if (invalido) {
+      setHorario('');
+      return alert(invalido);
+    }
+    setSaving(true);
+    try {
+      await atualizarAgendamento(String(agendamento.id), {
+        nome: agendamento.nome,
+        telefone: agendamento.telefone,
+        servico: agendamento.servico,
+        data,
+        horario,
+        duracao: agendamento.duracao,
+        barbeiro: agendamento.barbeiro || disponibilidade[horario]?.[0] || undefined,
+        usuario_id: agendamento.usuario_id,
+        historico: registrarAlteracao(agendamento, {
+          acao: 'remarcacao',
+          por: 'cliente',
+          usuario_id: agendamento.usuario_id,
+          nome: agendamento.nome,
+          de: { data: agendamento.data, horario: agendamento.horario },
+        }),
+      }, { tentativas: 1 }); // acrescenta ao histórico: não repete
+      onRemarcado();
+    } catch (e) {
+      if (ehErroApi(e, 'conflito', 'validacao')) {
+        // Alguém ocupou o horário (409) ou ele saiu da janela de agendamento (422): recarrega os livres
+        setHorario('');
+        recarregarOcupados();
+      }
+      alert(mensagemDeErro(e, 'Erro ao remarcar agendamento'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999] flex items-center justify-center p-2 md:p-4">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 md:p-6 border-b">
+          <h3 className="text-lg md:text-xl font-bold">Remarcar Agendamento</h3>
+          <button className="text-gray-500 hover:text-gray-700 text-xl" onClick={onClose}>✕</button>
+        </div>
+        <div className="p-4 md:p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            {nomeDoServico(servicos, agendamento.servico)}
+            {agendamento.barbeiro && ` com ${nomeDoBarbeiro(barbeiros, agendamento.barbeiro)}`}
+            {` — atualmente em ${formatarData(agendamento.data)} às ${agendamento.horario}`}
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nova data</label>
+            <input
+              type="date"
+              className="w-full px-3 py-2 border rounded text-sm"
+              value={data}
+              min={hojeISO()}
+              max={ultimoDiaReservavel(agenda)}
+              onChange={(e) => handleDataChange(e.target.value)}
+            />
+            {erroData && <p className="mt-1 text-xs text-red-600">{erroData}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Novo horário</label>
+            <select
+              className="w-full px-3 py-2 border rounded text-sm"
+              value={horario}
+              onChange={(e) => setHorario(e.target.value)}
+              disabled={!data || ocupadosIndisponiveis}
+            >
+              <option value="">
+                {!data
+                  ? 'Selecione a data primeiro'
+                  : carregandoOcupados
+                    ? 'Carregando horários livres...'
+                    : horariosDisponiveis.length === 0 && !erroOcupados ? 'Nenhum horário livre nesta data' : 'Selecione um horário'}
+              </option>
+              {horariosDisponiveis.map((h) => (
+                <option key={h} value={h}>{h}</option>
+              ))}
+            </select>
+            {data && erroOcupados !== undefined && (
+              <p className="mt-1 text-xs text-red-600">
+                Não foi possível carregar os horários livres.{' '}
+                <button type="button" onClick={recarregarOcupados} className="underline">Tentar de novo</button>
+              </p>
+            )}
+          </div>
+          <div className="flex gap-3 pt-2">
+            <button className="flex-1 px-4 py-2 border rounded text-sm" onClick={onClose}>Voltar</button>
+            <button className="flex-1 px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-50" disabled={saving || !horario || ocupadosIndisponiveis} onClick={handleSave}>
+              {saving ? 'Salvando...' : 'Confirmar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+import { useAuth } from "@/app/hooks/useAuth";
+import type { Permissao } from "@/app/utils/permissoes";
+
+interface RequirePermissionProps {
+  permissao: Permissao;
+  children: React.ReactNode;
+  fallback?: React.ReactNode; // padrão: aviso de acesso restrito
+}
+
+/**
+ * Mostra o conteúdo só para quem tem a permissão (ver utils/permissoes).
+ * Enquanto a sessão não foi lida não mostra nada, para não piscar o aviso.
+ */
+export default function RequirePermission({ permissao, children, fallback }: RequirePermissionProps) {
+  const { pronto, pode } = useAuth();
+  if (!pronto) return null;
+  if (pode(permissao)) return <>{children}</>;
+  return (
+    <>
+      {fallback ?? (
+        <div className="p-8 text-center text-gray-600">
+          Acesso restrito: sua conta não tem permissão para esta área.
+        </div>
+      )}
+    </>
+  );
+}
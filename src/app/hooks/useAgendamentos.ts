@@ -0,0 +1,21 @@
+"use client";
+import { useCallback } from "react";
+import { listarAgendamentos } from "@/app/utils/api";
+import { CHAVES } from "@/app/utils/consultas";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useConsulta } from "@/app/hooks/useConsulta";
+import type { AgendamentoData } from "@/app/types/index";
+
+const NENHUM: AgendamentoData[] = [];
+
+/**
+ * Carrega os agendamentos (com `usuario_id`, só os daquele cliente).
+ * Com `filtros` null não busca nada, ex.: enquanto o acesso não foi verificado.
+ * Criar, atualizar ou excluir um agendamento recarrega a lista sozinho.
+ */
+export function useAgendamentos(filtros: { usuario_id?: string } | null = {}) {
+  const usuarioId = filtros?.usuario_id;
+  const buscar = useCallback(() => listarAgendamentos({ usuario_id: usuarioId }), [usuarioId]);
+  const { dados, carregando, erro, recarregar } = useConsulta(filtros ? CHAVES.agendamentos({ usuario_id: usuarioId }) : null, buscar);
+  return { agendamentos: dados ?? NENHUM, loading: carregando, erro: erro ? mensagemDeErro(erro, "Erro ao buscar agendamentos.") : "", recarregar };
+}
@@ -0,0 +1,21 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/app/hooks/useAuth";
+import { assinarFila, listarPendentes, type AgendamentoPendente } from "@/app/utils/filaOffline";
+
+// Agendamentos do usuário logado guardados na fila offline (utils/filaOffline), atualizados a cada mudança
+export function useAgendamentosPendentes() {
+  const { user } = useAuth();
+  const [pendentes, setPendentes] = useState<AgendamentoPendente[]>([]);
+
+  const recarregar = useCallback(async () => {
+    setPendentes(await listarPendentes());
+  }, []);
+
+  useEffect(() => {
+    recarregar();
+    return assinarFila(recarregar);
+  }, [recarregar, user?.id]);
+
+  return { pendentes, recarregar };
+}
@@ -0,0 +1,10 @@
+"use client";
+import { useContext } from "react";
+import { AuthContext } from "@/app/components/AuthProvider";
+
+// Sessão atual (user, token, roles) e as ações de login/logout; exige o AuthProvider do layout
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useAuth precisa estar dentro do AuthProvider.");
+  return auth;
+}
@@ -0,0 +1,25 @@
+"use client";
+import { useMemo } from "react";
+import { listarBarbeiros } from "@/app/utils/api";
+import { CHAVES } from "@/app/utils/consultas";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useConsulta } from "@/app/hooks/useConsulta";
+
+interface UseBarbeirosOptions {
+  incluirInativos?: boolean;
+}
+
+/**
+ * Carrega a equipe do backend.
+ * Por padrão devolve apenas os barbeiros ativos, já ordenados para exibição.
+ */
+export function useBarbeiros({ incluirInativos = false }: UseBarbeirosOptions = {}) {
+  const { dados, carregando, erro, recarregar } = useConsulta(CHAVES.barbeiros, listarBarbeiros);
+
+  const barbeiros = useMemo(() => {
+    const todos = dados ?? [];
+    return incluirInativos ? todos : todos.filter((b) => b.ativo);
+  }, [dados, incluirInativos]);
+
+  return { barbeiros, loading: carregando, erro: erro ? mensagemDeErro(erro, "Erro ao carregar barbeiros.") : "", recarregar };
+}
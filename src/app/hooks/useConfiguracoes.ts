@@ -0,0 +1,15 @@
+"use client";
+import { obterConfiguracoes } from "@/app/utils/api";
+import { CHAVES } from "@/app/utils/consultas";
+import { CONFIGURACOES_PADRAO } from "@/app/utils/configuracoes";
+import { useConsulta } from "@/app/hooks/useConsulta";
+
+/**
+ * Carrega as configurações da barbearia.
+ * Começa (e permanece, se o backend falhar) com os valores padrão,
+ * para que a agenda nunca fique sem regras.
+ */
+export function useConfiguracoes() {
+  const { dados, carregando, recarregar } = useConsulta(CHAVES.configuracoes, obterConfiguracoes);
+  return { configuracoes: dados ?? CONFIGURACOES_PADRAO, loading: carregando, recarregar };
+}
@@ -0,0 +1,59 @@
+"use client";
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { assinarConsulta, buscarConsulta, estaVencida, FRESCO_MS, lerConsulta, type EstadoConsulta } from "@/app/utils/consultas";
+
+interface UseConsultaOptions {
+  frescoMs?: number;
+}
+
+const SEM_CHAVE: EstadoConsulta<never> = { buscando: false, atualizadoEm: 0 };
+
+/**
+ * Lê uma chave do cache de consultas (utils/consultas) e busca quando ela está vencida:
+ * ao montar, ao trocar de chave e quando a janela volta ao foco.
+ * Com `chave` null não busca nada (ex.: usuário ainda não identificado).
+ */
+export function useConsulta<T>(chave: string | null, buscar: () => Promise<T>, { frescoMs = FRESCO_MS }: UseConsultaOptions = {}) {
+  const assinar = useCallback(
+    (ouvinte: () => void) => (chave ? assinarConsulta(chave, ouvinte) : () => {}),
+    [chave]
+  );
+  const estado = useSyncExternalStore(
+    assinar,
+    (): EstadoConsulta<T> => (chave ? lerConsulta<T>(chave) : SEM_CHAVE),
+    () => SEM_CHAVE
+  );
+
+  // A função de busca costuma ser recriada a cada render; vale sempre a mais recente
+  const buscarRef = useRef(buscar);
+  buscarRef.current = buscar;
+
+  const recarregar = useCallback(async () => {
+    if (!chave) return;
+    try {
+      await buscarConsulta(chave, () => buscarRef.current());
+    } catch {
+      // o erro fica no estado da consulta
+    }
+  }, [chave]);
+
+  useEffect(() => {
+    if (!chave) return;
+    const revalidar = () => {
+      if (estaVencida(chave, frescoMs)) recarregar();
+    };
+    revalidar();
+    window.addEventListener("focus", revalidar);
+    return () => window.removeEventListener("focus", revalidar);
+  }, [chave, frescoMs, recarregar]);
+
+  const dados = estado.dados as T | undefined;
+  return {
+    dados,
+    erro: estado.erro,
+    // Primeira carga: ainda sem dados nem erro. Revalidações não contam (dado antigo fica na tela)
+    carregando: chave !== null && dados === undefined && estado.erro === undefined,
+    atualizando: estado.buscando,
+    recarregar,
+  };
+}
@@ -0,0 +1,8 @@
+"use client";
+import { useSyncExternalStore } from "react";
+import { assinarEstadoServidor, estadoDoServidor } from "@/app/utils/servidor";
+
+// Estado da conexão com o backend ('pronto' | 'acordando' | 'indisponivel'), atualizado a cada requisição
+export function useEstadoServidor() {
+  return useSyncExternalStore(assinarEstadoServidor, estadoDoServidor, () => 'pronto' as const);
+}
@@ -0,0 +1,17 @@
+"use client";
+import { listarFeriados } from "@/app/utils/api";
+import { CHAVES } from "@/app/utils/consultas";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useConsulta } from "@/app/hooks/useConsulta";
+import type { Feriado } from "@/app/types/index";
+
+const NENHUM: Feriado[] = [];
+
+/**
+ * Carrega os feriados cadastrados no painel.
+ * Se o backend falhar, segue só com os nacionais, que são calculados localmente.
+ */
+export function useFeriados() {
+  const { dados, carregando, erro, recarregar } = useConsulta(CHAVES.feriados, listarFeriados);
+  return { feriados: dados ?? NENHUM, loading: carregando, erro: erro ? mensagemDeErro(erro, "Erro ao carregar feriados.") : "", recarregar };
+}
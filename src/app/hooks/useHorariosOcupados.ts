@@ -0,0 +1,23 @@
+"use client";
+import { useCallback } from "react";
+import { listarHorariosOcupados } from "@/app/utils/api";
+import { CHAVES } from "@/app/utils/consultas";
+import { useConsulta } from "@/app/hooks/useConsulta";
+import type { HorarioOcupado } from "@/app/utils/contrato";
+
+const NENHUM: HorarioOcupado[] = [];
+
+// A agenda muda com os outros clientes: consideramos fresca por pouco tempo
+const FRESCO_OCUPADOS_MS = 10_000;
+
+/**
+ * Horários já ocupados em uma data, para um serviço. Sem data ou serviço não busca nada.
+ * Enquanto carrega ou se o backend falhar, `ocupados` vem vazio: a tela deve olhar
+ * `carregando` e `erro` antes de oferecer horários, senão todos parecem livres.
+ */
+export function useHorariosOcupados(data: string, servico: string) {
+  const buscar = useCallback(() => listarHorariosOcupados(data, servico), [data, servico]);
+  const chave = data && servico ? CHAVES.ocupados(data, servico) : null;
+  const { dados, erro, carregando, recarregar } = useConsulta(chave, buscar, { frescoMs: FRESCO_OCUPADOS_MS });
+  return { ocupados: chave ? dados ?? NENHUM : NENHUM, erro: chave ? erro : undefined, carregando, recarregar };
+}
@@ -0,0 +1,25 @@
+"use client";
+import { useMemo } from "react";
+import { listarServicos } from "@/app/utils/api";
+import { CHAVES } from "@/app/utils/consultas";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useConsulta } from "@/app/hooks/useConsulta";
+
+interface UseServicosOptions {
+  incluirInativos?: boolean;
+}
+
+/**
+ * Carrega o catálogo de serviços do backend.
+ * Por padrão devolve apenas os serviços ativos, já ordenados para exibição.
+ */
+export function useServicos({ incluirInativos = false }: UseServicosOptions = {}) {
+  const { dados, carregando, erro, recarregar } = useConsulta(CHAVES.servicos, listarServicos);
+
+  const servicos = useMemo(() => {
+    const todos = dados ?? [];
+    return incluirInativos ? todos : todos.filter((s) => s.ativo);
+  }, [dados, incluirInativos]);
+
+  return { servicos, loading: carregando, erro: erro ? mensagemDeErro(erro, "Erro ao carregar serviços.") : "", recarregar };
+}
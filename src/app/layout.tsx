@@ -2,6 +2,9 @@ import "./globals.css";
 import type { Metadata, Viewport } from "next";
 import Header from "./components/Header";
 import Footer from "./components/Footer";
+import AvisoServidor from "./components/AvisoServidor";
+import AvisoPendentes from "./components/AvisoPendentes";
+import AuthProvider from "./components/AuthProvider";
 
 export const metadata: Metadata = {
   title: "Barbearia Lopes Club",
@@ -26,11 +29,15 @@ export default function RootLayout({
         <link rel="icon" href="/favicon.svg" type="image/svg+xml" />
       </head>
       <body className="antialiased font-sans">
-        <Header />
-        <main>
-          {children}
-        </main>
-        <Footer />
+        <AuthProvider>
+          <Header />
+          <main>
+            {children}
+          </main>
+          <Footer />
+          <AvisoServidor />
+          <AvisoPendentes />
+        </AuthProvider>
       </body>
     </html>
   );
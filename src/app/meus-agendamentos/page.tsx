@@ -0,0 +1,178 @@
+"use client";
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { cancelarAgendamento } from "@/app/utils/api";
+import { mensagemDeErro } from "@/app/utils/erros";
+import { useAgendamentos } from "@/app/hooks/useAgendamentos";
+import { useAgendamentosPendentes } from "@/app/hooks/useAgendamentosPendentes";
+import type { AgendamentoData } from "@/app/types/index";
+import { useAuth } from "@/app/hooks/useAuth";
+import { useServicos } from "@/app/hooks/useServicos";
+import { nomeDoServico } from "@/app/utils/servicos";
+import { useBarbeiros } from "@/app/hooks/useBarbeiros";
+import { nomeDoBarbeiro } from "@/app/utils/barbeiros";
+import RemarcarAgendamentoModal from "@/app/components/RemarcarAgendamentoModal";
+import { useConfiguracoes } from "@/app/hooks/useConfiguracoes";
+import { STATUS_AGENDAMENTO, statusEmAberto, statusFinal } from "@/app/utils/status";
+import { agoraNoFuso, compararDataHora, formatarData } from "@/app/utils/datas";
+import { avaliarCancelamento, avaliarRemarcacao, descreverPolitica } from "@/app/utils/politica";
+
+const chaveDoAgendamento = (ag: AgendamentoData) => `${ag.data}T${ag.horario}`;
+
+export default function MeusAgendamentosPage() {
+  const { user, pronto } = useAuth();
+  const [remarcando, setRemarcando] = useState<AgendamentoData | null>(null);
+
+  const { servicos } = useServicos({ incluirInativos: true });
+  const { barbeiros } = useBarbeiros({ incluirInativos: true });
+  const { configuracoes } = useConfiguracoes();
+  const { politica } = configuracoes;
+
+  // Cancelar e remarcar já recarregam a lista (utils/consultas)
+  const { agendamentos, loading, erro: error } = useAgendamentos(user?.id ? { usuario_id: String(user.id) } : null);
+  // Feitos sem conexão e ainda não enviados (utils/filaOffline)
+  const { pendentes: fila } = useAgendamentosPendentes();
+  const pendentes = fila.filter(p => p.situacao === 'pendente' && user && String(p.agendamento.usuario_id) === String(user.id));
+
+  const { proximos, anteriores } = useMemo(() => {
+    const agora = agoraNoFuso();
+    const ordenados = [...agendamentos].sort(compararDataHora);
+    const futuro = (a: AgendamentoData) => compararDataHora(a, agora) >= 0;
+    return {
+      proximos: ordenados.filter(a => futuro(a) && !statusFinal(a.status || 'confirmado')),
+      anteriores: ordenados.filter(a => !futuro(a) || statusFinal(a.status || 'confirmado')).reverse(),
+    };
+  }, [agendamentos]);
+
+  async function handleCancelar(ag: AgendamentoData) {
+    if (!ag.id || !user) return;
+    const avaliacao = avaliarCancelamento(ag, politica);
+    if (!avaliacao.permitido) return alert(avaliacao.motivo);
+    const aviso = avaliacao.tardio ? '\n\nFaltando tão pouco tempo, este cancelamento ficará registrado como tardio.' : '';
+    if (!confirm(`Cancelar o agendamento de ${formatarData(ag.data)} às ${ag.horario}?${aviso}`)) return;
+    const motivo = prompt('Se quiser, conte o motivo do cancelamento:');
+    try {
+      await cancelarAgendamento(ag, {
+        por: 'cliente',
+        usuario_id: String(user.id),
+        nome: user.nome,
+        motivo: motivo?.trim() || undefined,
+        tardio: avaliacao.tardio,
+      });
+    } catch (error) {
+      alert(mensagemDeErro(error, 'Erro ao cancelar agendamento'));
+    }
+  }
+
+  function handleRemarcar(ag: AgendamentoData) {
+    const avaliacao = avaliarRemarcacao(ag, politica);
+    if (!avaliacao.permitido) return alert(avaliacao.motivo);
+    setRemarcando(ag);
+  }
+
+  function renderCard(ag: AgendamentoData, futuro: boolean) {
+    const status = STATUS_AGENDAMENTO[ag.status || 'confirmado'];
+    return (
+      <div key={String(ag.id ?? chaveDoAgendamento(ag))} className="bg-white p-4 rounded border shadow-sm">
+        <div className="flex justify-between items-start mb-2">
+          <div>
+            <h3 className="font-semibold">{nomeDoServico(servicos, ag.servico)}</h3>
+            {ag.barbeiro && <p className="text-sm text-gray-600">com {nomeDoBarbeiro(barbeiros, ag.barbeiro)}</p>}
+          </div>
+          <span className={`text-xs px-2 py-1 rounded ${status.classe}`}>{status.rotulo}</span>
+        </div>
+        <p className="text-sm text-gray-700">
+          {formatarData(ag.data)} às <span className="font-medium">{ag.horario}</span>
+        </p>
+        {ag.status === 'pendente' && futuro && (
+          <p className="text-xs text-gray-500 mt-1">Aguardando confirmação da barbearia.</p>
+        )}
+        {futuro && statusEmAberto(ag.status || 'confirmado') && (
+          <div className="flex gap-2 mt-3">
+            <button className="flex-1 px-3 py-2 text-sm bg-yellow-500 text-black rounded hover:bg-yellow-600 font-semibold" onClick={() => handleRemarcar(ag)}>Remarcar</button>
+            <button className="flex-1 px-3 py-2 text-sm bg-red-600 text-white rounded hover:bg-red-700 font-semibold" onClick={() => handleCancelar(ag)}>Cancelar</button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (!pronto) return <div className="p-8 text-center">Carregando...</div>;
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <p className="text-gray-700">Entre na sua conta para ver seus agendamentos.</p>
+          <Link href="/" className="inline-block bg-blue-600 text-white px-4 py-2 rounded font-bold hover:bg-blue-700">
+            Voltar ao site
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <h1 className="text-xl md:text-2xl font-bold">Meus Agendamentos</h1>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Voltar ao site</Link>
+        </div>
+
+        <div className="mb-6 bg-white border rounded p-4">
+          <p className="text-sm font-semibold mb-1">Cancelamentos e remarcações</p>
+          <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+            {descreverPolitica(politica).map((r) => <li key={r}>{r}</li>)}
+          </ul>
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center">Carregando...</div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-600">{error}</div>
+        ) : (
+          <>
+            <h2 className="text-lg font-semibold mb-3">Próximos</h2>
+            <div className="space-y-3 mb-8">
+              {pendentes.map(p => (
+                <div key={p.idLocal} className="bg-white p-4 rounded border border-dashed shadow-sm">
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="font-semibold">{nomeDoServico(servicos, p.agendamento.servico || '')}</h3>
+                    <span className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-800">Pendente de envio</span>
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    {formatarData(p.agendamento.data || '')} às <span className="font-medium">{p.agendamento.horario}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">Será enviado à barbearia quando sua conexão voltar.</p>
+                </div>
+              ))}
+              {proximos.length === 0 && pendentes.length === 0 ? (
+                <div className="bg-white p-4 rounded border text-center text-gray-500 text-sm">Você não tem horários marcados.</div>
+              ) : (
+                proximos.map(ag => renderCard(ag, true))
+              )}
+            </div>
+
+            <h2 className="text-lg font-semibold mb-3">Anteriores</h2>
+            <div className="space-y-3">
+              {anteriores.length === 0 ? (
+                <div className="bg-white p-4 rounded border text-center text-gray-500 text-sm">Nenhum atendimento anterior.</div>
+              ) : (
+                anteriores.map(ag => renderCard(ag, false))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {remarcando && (
+        <RemarcarAgendamentoModal
+          agendamento={remarcando}
+          onClose={() => setRemarcando(null)}
+          onRemarcado={() => setRemarcando(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+import bcrypt from "bcryptjs";
+import { bancoInicial, type BancoMock, type Registro } from "@/app/mock/dados";
+import { API_CONFIG, type AcessoRota, type MetodoHttp, type RotaApi } from "@/app/utils/api";
+import { horaParaMinutos } from "@/app/utils/datas";
+import { validarInicio } from "@/app/utils/agenda";
+import { normalizarConfiguracoes } from "@/app/utils/configuracoes";
+
+/**
+ * Backend simulado, para desenvolver e testar sem rede. Com NEXT_PUBLIC_API_URL=mock o
+ * `apiRequest` entrega as requisições a `responder` em vez do `fetch`; todo o resto do
+ * site (contrato, erros, cache, fila offline) funciona como em produção.
+ *
+ * Atende as rotas do API_CONFIG, e só elas: o acesso de cada uma (pública, autenticada,
+ * admin) vem de lá, a mesma declaração que decide o token no `apiRequest`. Os dados
+ * ficam no localStorage ("mockBackend"); `reiniciarMock()` volta ao estado inicial de mock/dados.
+ */
+
+export interface OpcoesMock {
+  latenciaMs: number; // média por requisição (varia ±50%)
+  taxaDeFalhas: number; // 0 a 1: chance de responder 503, como o proxy do Render
+  offline: boolean; // falha como o fetch sem conexão
+  dormindoMs: number; // espera extra na primeira requisição, como uma instância acordando
+}
+
+const opcoes: OpcoesMock = {
+  latenciaMs: Number(process.env.NEXT_PUBLIC_MOCK_LATENCIA_MS ?? 300),
+  taxaDeFalhas: Number(process.env.NEXT_PUBLIC_MOCK_FALHAS ?? 0),
+  offline: false,
+  dormindoMs: Number(process.env.NEXT_PUBLIC_MOCK_DORMINDO_MS ?? 0),
+};
+
+let acordado = false;
+
+export function configurarMock(mudanca: Partial<OpcoesMock>) {
+  Object.assign(opcoes, mudanca);
+  if (mudanca.dormindoMs) acordado = false;
+}
+
+// ---------- Dados ----------
+
+const CHAVE_STORAGE = 'mockBackend';
+let banco: BancoMock | null = null;
+
+function db(): BancoMock {
+  if (!banco) {
+    try {
+      const salvo = localStorage.getItem(CHAVE_STORAGE);
+      banco = salvo ? JSON.parse(salvo) : null;
+    } catch {
+      // sem localStorage (ex.: testes no Node): só em memória
+    }
+    banco ??= bancoInicial();
+  }
+  return banco!;
+}
+
+function persistir() {
+  try {
+    localStorage.setItem(CHAVE_STORAGE, JSON.stringify(banco));
+  } catch {
+    // só em memória
+  }
+}
+
+export function reiniciarMock() {
+  banco = bancoInicial();
+  persistir();
+}
+
+const novoId = (prefixo: string) => `${prefixo}${db().proximoId++}`;
+
+// Usuário como o backend devolve: sem a senha
+function publico(u: Registro): Registro {
+  const { password, ...resto } = u;
+  return resto;
+}
+
+// Papéis como o backend com controle de acesso: `isAdmin` antigo só vale como dono sem `role` (ver papeisDe)
+const ehGestao = (u: Registro) => (u.role ? ['owner', 'manager'].includes(u.role) : u.isAdmin === true);
+const ehEquipe = (u: Registro) => ehGestao(u) || ['barber', 'receptionist'].includes(u.role);
+
+// ---------- Token (formato de JWT; a assinatura não é conferida) ----------
+
+const base64url = (s: string) => btoa(unescape(encodeURIComponent(s))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+function emitirToken(u: Registro): string {
+  const payload = { id: u._id, email: u.email, isAdmin: u.isAdmin === true, role: u.role, exp: Math.floor(Date.now() / 1000) + 7 * 24 * 3600 };
+  return `${base64url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}.mock`;
+}
+
+function usuarioDoToken(headers: Headers): Registro | undefined {
+  const token = headers.get('authorization')?.replace(/^Bearer\s+/i, '') || headers.get('x-access-token');
+  if (!token) return undefined;
+  try {
+    const json = decodeURIComponent(escape(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/'))));
+    const claims = JSON.parse(json);
+    if (claims.exp && claims.exp * 1000 < Date.now()) return undefined;
+    return db().usuarios.find((u) => u._id === claims.id);
+  } catch {
+    return undefined;
+  }
+}
+
+const senhaConfere = (salva: string, informada: string) =>
+  salva.startsWith('$2') ? bcrypt.compareSync(informada, salva) : salva === informada;
+
+// ---------- Respostas ----------
+
+interface Resposta {
+  status: number;
+  corpo?: unknown;
+}
+
+interface Requisicao {
+  params: string[];
+  query: URLSearchParams;
+  corpo: Registro;
+  usuario?: Registro;
+}
+
+const ok = (corpo: unknown, status = 200): Resposta => ({ status, corpo });
+const falha = (status: number, message: string, extra: Registro = {}): Resposta => ({ status, corpo: { success: false, message, ...extra } });
+
+// 422 com os campos obrigatórios que faltaram, no formato lido por utils/erros
+function exigir(corpo: Registro, campos: Record<string, string>): Resposta | undefined {
+  const erros = Object.entries(campos)
+    .filter(([campo]) => corpo[campo] == null || String(corpo[campo]).trim() === '')
+    .map(([campo, rotulo]) => ({ campo, mensagem: `Informe ${rotulo}.` }));
+  return erros.length ? falha(422, 'Alguns dados não foram aceitos.', { erros }) : undefined;
+}
+
+// ---------- Agenda ----------
+
+function duracaoDe(ag: Registro): number {
+  const servico = db().servicos.find((s) => s._id === ag.servico);
+  return Number(ag.duracao) || Number(servico?.duracao) || 30;
+}
+
+const inicioDe = (ag: Registro) => horaParaMinutos(String(ag.horario ?? ag.hora ?? ''));
+const cancelado = (ag: Registro) => ag.status === 'cancelado' || (ag.historico || []).some((r: Registro) => r.acao === 'cancelamento');
+
+// Mesmo barbeiro no mesmo intervalo, ou todas as cadeiras ocupadas
+function temConflito(novo: Registro, ignorarId?: string): boolean {
+  const ini = inicioDe(novo);
+  const fim = ini + duracaoDe(novo);
+  const sobrepostos = db().agendamentos.filter((ag) =>
+    ag._id !== ignorarId && ag.data === novo.data && !cancelado(ag) &&
+    inicioDe(ag) < fim && ini < inicioDe(ag) + duracaoDe(ag)
+  );
+  if (novo.barbeiro && sobrepostos.some((ag) => ag.barbeiro === novo.barbeiro)) return true;
+  return sobrepostos.length >= db().barbeiros.filter((b) => b.ativo !== false).length;
+}
+
+const CONFLITO = () => falha(409, 'Este horário acabou de ser ocupado. Escolha outro.');
+
+// Antecedência mínima e horizonte valem para o cliente; a equipe agenda e remarca livremente
+function foraDaJanela(ag: Registro, usuario: Registro): Resposta | undefined {
+  if (ehEquipe(usuario)) return undefined;
+  const motivo = validarInicio(String(ag.data ?? ''), String(ag.horario ?? ag.hora ?? ''), normalizarConfiguracoes(db().configuracoes).agenda);
+  return motivo ? falha(422, motivo) : undefined;
+}
+
+// ---------- Rotas ----------
+
+interface Rota {
+  metodo: string;
+  caminho: RegExp;
+  acesso: AcessoRota;
+  responder: (req: Requisicao) => Resposta;
+}
+
+// Todas as rotas do API_CONFIG; as com parâmetro viram o molde "/api/x/:id"
+function rotasDoConfig(no: unknown): RotaApi[] {
+  if (typeof no === 'function') return rotasDoConfig(no(':id'));
+  if (!no || typeof no !== 'object') return [];
+  if ('caminho' in no) return [no as RotaApi];
+  return Object.values(no).flatMap(rotasDoConfig);
+}
+const DECLARADAS = rotasDoConfig(API_CONFIG.endpoints);
+
+const rotas: Rota[] = [];
+const rota = (metodo: MetodoHttp, caminhos: string | string[], responder: Rota['responder']) => {
+  for (const c of ([] as string[]).concat(caminhos)) {
+    const declarada = DECLARADAS.find((d) => d.metodo === metodo && d.caminho === c);
+    if (!declarada) throw new Error(`Rota do mock fora do API_CONFIG: ${metodo} ${c}`);
+    rotas.push({ metodo, caminho: new RegExp(`^${c.replace(/:\w+/g, '([^/]+)')}$`), acesso: declarada.acesso, responder });
+  }
+};
+
+// Autenticação
+rota('POST', ['/api/login', '/auterota/login'], ({ corpo }) => {
+  const login = String(corpo.username ?? corpo.email ?? '').toLowerCase();
+  const u = db().usuarios.find((x) => x.email.toLowerCase() === login || String(x.username).toLowerCase() === login);
+  if (!u || !senhaConfere(u.password, String(corpo.password ?? ''))) return falha(401, 'E-mail ou senha incorretos.');
+  return ok({ success: true, token: emitirToken(u), user: publico(u) });
+});
+
+rota('POST', '/api/iniciar-cadastro', ({ corpo }) => {
+  const invalido = exigir(corpo, { nome_completo: 'seu nome', email: 'seu e-mail', password: 'uma senha' });
+  if (invalido) return invalido;
+  const email = String(corpo.email).toLowerCase();
+  if (db().usuarios.some((u) => u.email.toLowerCase() === email)) return falha(409, 'Já existe uma conta com este e-mail.');
+  const codigo = String(Math.floor(100000 + Math.random() * 900000));
+  db().cadastrosPendentes = [...db().cadastrosPendentes.filter((c) => c.email !== email), { ...corpo, email, codigo }];
+  return ok({ success: true, message: 'Enviamos um código de verificação para o seu e-mail.', codigo_dev: codigo });
+});
+
+rota('POST', '/api/verificar-codigo', ({ corpo }) => {
+  const email = String(corpo.email ?? '').toLowerCase();
+  const pendente = db().cadastrosPendentes.find((c) => c.email === email && c.codigo === String(corpo.codigo ?? '').trim());
+  if (!pendente) return falha(400, 'Código inválido ou expirado.');
+  const { codigo, ...dados } = pendente;
+  db().usuarios.push({ ...dados, _id: novoId('u'), verificado: true });
+  db().cadastrosPendentes = db().cadastrosPendentes.filter((c) => c !== pendente);
+  return ok({ success: true, message: 'Cadastro confirmado.' });
+});
+
+// Sem Google no mock: o site mostra que o login pelo Google não está disponível
+rota('GET', '/api/google-config', () => ok({ success: true, clientId: '' }));
+
+// Callback aceita qualquer código e entra com um usuário do Google de demonstração
+for (const metodo of ['POST', 'GET'] as const) {
+  rota(metodo, ['/api/auth/google/callback', '/auterota/google/callback'], ({ corpo, query }) => {
+    if (!(corpo.code ?? query.get('code'))) return falha(400, 'Código de autorização ausente.');
+    let u = db().usuarios.find((x) => x.email === 'google@exemplo.com');
+    const novo = !u;
+    if (!u) {
+      u = { _id: novoId('u'), nome_completo: 'Usuário Google', username: 'google@exemplo.com', email: 'google@exemplo.com', password: '', verificado: true };
+      db().usuarios.push(u);
+    }
+    return ok({ success: true, token: emitirToken(u), user: publico(u), isNewUser: novo });
+  });
+}
+
+rota('GET', '/api/me', ({ usuario }) => ok({ success: true, user: publico(usuario!) }));
+
+rota('PUT', '/auterota/atualizar-telefone', ({ corpo, usuario }) => {
+  const telefone = String(corpo.telefone ?? '').replace(/\D/g, '');
+  if (telefone.length < 10) return falha(422, 'Telefone inválido.', { erros: [{ campo: 'telefone', mensagem: 'Informe o telefone com DDD.' }] });
+  usuario!.tel = telefone;
+  return ok({ success: true, message: 'Telefone atualizado.', user: publico(usuario!) });
+});
+
+// Agendamentos
+rota('GET', '/api/agendamentos', ({ query }) => {
+  const usuarioId = query.get('usuario_id');
+  return ok({ success: true, data: db().agendamentos.filter((a) => !usuarioId || a.usuario_id === usuarioId) });
+});
+
+// Horários ocupados do dia: só o necessário para calcular horários livres, sem dados do cliente
+rota('GET', '/auterota/agendamentos', ({ query }) => {
+  const data = query.get('data');
+  const ocupados = db().agendamentos
+    .filter((a) => a.data === data && !cancelado(a))
+    .map((a) => ({ _id: a._id, data: a.data, horario: a.horario ?? a.hora, duracao: duracaoDe(a), servico: a.servico, barbeiro: a.barbeiro }));
+  return ok({ success: true, data: ocupados });
+});
+
+rota('POST', '/api/agendar', ({ corpo, usuario }) => {
+  const invalido = exigir(corpo, { nome: 'o nome', telefone: 'o telefone', servico: 'o serviço', data: 'a data', horario: 'o horário' });
+  if (invalido) return invalido;
+  const recusa = foraDaJanela(corpo, usuario!);
+  if (recusa) return recusa;
+  if (temConflito(corpo)) return CONFLITO();
+  const n = db().proximoId;
+  const agendamento = {
+    ...corpo,
+    _id: novoId('a'),
+    codigo: `LC${String(n).padStart(4, '0')}`,
+    usuario_id: corpo.usuario_id ?? usuario!._id,
+    status: corpo.status ?? 'pendente',
+  };
+  db().agendamentos.push(agendamento);
+  return ok({ success: true, agendamento }, 201);
+});
+
+rota('PUT', '/api/agendar/:id', ({ params: [id], corpo, usuario }) => {
+  const atual = db().agendamentos.find((a) => a._id === id);
+  if (!atual) return falha(404, 'Agendamento não encontrado.');
+  if (!ehEquipe(usuario!) && atual.usuario_id !== usuario!._id) return falha(403, 'Você só pode alterar os seus agendamentos.');
+  const atualizado: Registro = { ...atual, ...corpo, _id: id };
+  const mudouHorario = atualizado.data !== atual.data || inicioDe(atualizado) !== inicioDe(atual) || atualizado.barbeiro !== atual.barbeiro;
+  if (mudouHorario && !cancelado(atualizado)) {
+    const recusa = foraDaJanela(atualizado, usuario!);
+    if (recusa) return recusa;
+    if (temConflito(atualizado, id)) return CONFLITO();
+  }
+  db().agendamentos = db().agendamentos.map((a) => (a._id === id ? atualizado : a));
+  return ok({ success: true, agendamento: atualizado });
+});
+
+// Cadastros do painel
+function cadastro(colecao: 'servicos' | 'barbeiros' | 'feriados', singular: string, prefixo: string, obrigatorios: Record<string, string>) {
+  rota('GET', `/api/${colecao}`, () => ok({ success: true, data: db()[colecao] }));
+  rota('POST', `/api/${colecao}`, ({ corpo }) => {
+    const invalido = exigir(corpo, obrigatorios);
+    if (invalido) return invalido;
+    const item = { ...corpo, _id: novoId(prefixo) };
+    db()[colecao].push(item);
+    return ok({ success: true, [singular]: item }, 201);
+  });
+  rota('PUT', `/api/${colecao}/:id`, ({ params: [id], corpo }) => {
+    const atual = db()[colecao].find((x) => x._id === id);
+    if (!atual) return falha(404, 'Registro não encontrado.');
+    const item = { ...atual, ...corpo, _id: id };
+    db()[colecao] = db()[colecao].map((x) => (x._id === id ? item : x));
+    return ok({ success: true, [singular]: item });
+  });
+  rota('DELETE', `/api/${colecao}/:id`, ({ params: [id] }) => {
+    if (!db()[colecao].some((x) => x._id === id)) return falha(404, 'Registro não encontrado.');
+    db()[colecao] = db()[colecao].filter((x) => x._id !== id);
+    return ok({ success: true, message: 'Removido.' });
+  });
+}
+cadastro('servicos', 'servico', 's', { nome: 'o nome do serviço' });
+cadastro('barbeiros', 'barbeiro', 'b', { nome: 'o nome do barbeiro' });
+cadastro('feriados', 'feriado', 'f', { data: 'a data', nome: 'o nome do feriado' });
+
+// Configurações: salvar uma seção não apaga as outras
+rota('GET', '/api/configuracoes', () => ok({ success: true, configuracoes: db().configuracoes }));
+rota('PUT', '/api/configuracoes', ({ corpo }) => {
+  db().configuracoes = { ...db().configuracoes, ...corpo };
+  return ok({ success: true, configuracoes: db().configuracoes });
+});
+
+// Usuários e administradores
+rota('GET', '/api/usuarios', () => ok({ success: true, usuarios: db().usuarios.map(publico) }));
+
+function criarConta(corpo: Registro, extra: Registro): Resposta {
+  const invalido = exigir(corpo, { nome_completo: 'o nome', email: 'o e-mail', password: 'a senha' });
+  if (invalido) return invalido;
+  const email = String(corpo.email).toLowerCase();
+  if (db().usuarios.some((u) => u.email.toLowerCase() === email)) return falha(409, 'Já existe uma conta com este e-mail.');
+  const usuario = { ...corpo, ...extra, email, username: corpo.username ?? email, _id: novoId('u'), verificado: true };
+  db().usuarios.push(usuario);
+  return ok({ success: true, message: extra.isAdmin ? 'Administrador criado.' : 'Usuário criado.', usuario: publico(usuario) }, 201);
+}
+
+rota('POST', '/api/admins', ({ corpo }) => criarConta(corpo, { isAdmin: true, role: 'owner' }));
+
+// ---------- Entrada ----------
+
+function esperar(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException('Abortado', 'AbortError'));
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(t);
+      reject(signal.reason ?? new DOMException('Abortado', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+function lerCorpo(body: RequestInit['body']): Registro {
+  if (typeof body !== 'string' || !body) return {};
+  try {
+    return JSON.parse(body);
+  } catch {
+    return {};
+  }
+}
+
+const json = (status: number, corpo: unknown) =>
+  new Response(corpo === undefined ? null : JSON.stringify(corpo), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Atende uma requisição como o `fetch` faria: devolve a Response do backend ou,
+ * offline, rejeita com TypeError. `url` é o endpoint com o prefixo "mock".
+ */
+export async function responder(url: string, init: RequestInit = {}): Promise<Response> {
+  const extra = acordado ? 0 : opcoes.dormindoMs;
+  acordado = true;
+  await esperar(extra + opcoes.latenciaMs * (0.5 + Math.random()), init.signal);
+  if (opcoes.offline) throw new TypeError('Failed to fetch');
+  if (Math.random() < opcoes.taxaDeFalhas) return new Response('Service Unavailable', { status: 503 });
+
+  const { pathname, searchParams } = new URL(url.replace(/^mock/, ''), 'http://mock.local');
+  const metodo = (init.method || 'GET').toUpperCase();
+  const candidatas = rotas.filter((r) => r.caminho.test(pathname));
+  if (candidatas.length === 0) return json(404, { success: false, message: `Rota não encontrada: ${pathname}` });
+  const encontrada = candidatas.find((r) => r.metodo === metodo);
+  if (!encontrada) return json(405, { success: false, message: `Método ${metodo} não permitido em ${pathname}` });
+
+  const usuario = usuarioDoToken(new Headers(init.headers));
+  if (encontrada.acesso !== 'publica' && !usuario) return json(401, { success: false, message: 'Usuário não autenticado. Faça login novamente.' });
+  if (encontrada.acesso === 'admin' && !ehGestao(usuario!)) return json(403, { success: false, message: 'Apenas administradores podem fazer isso.' });
+
+  const params = (encontrada.caminho.exec(pathname) ?? []).slice(1).map(decodeURIComponent);
+  const resposta = encontrada.responder({ params, query: searchParams, corpo: lerCorpo(init.body), usuario });
+  if (metodo !== 'GET') persistir();
+  return json(resposta.status, resposta.corpo);
+}
+
+declare global {
+  interface Window {
+    mockBackend?: { configurar: typeof configurarMock; reiniciar: typeof reiniciarMock; opcoes: OpcoesMock };
+  }
+}
+
+// No navegador, `mockBackend.configurar({ offline: true })` no console ajuda a testar falhas
+if (typeof window !== 'undefined') {
+  window.mockBackend = { configurar: configurarMock, reiniciar: reiniciarMock, opcoes };
+}
@@ -0,0 +1,64 @@
+import { hojeISO, somarDias } from "@/app/utils/datas";
+
+/**
+ * Dados iniciais do backend simulado (ver mock/backend), no formato em que o backend
+ * real grava e devolve: `_id`, `nome_completo`, `tel`... A leitura para o domínio
+ * continua sendo feita pelo contrato, como em produção.
+ */
+
+export type Registro = Record<string, any>;
+
+export interface BancoMock {
+  usuarios: Registro[];
+  servicos: Registro[];
+  barbeiros: Registro[];
+  agendamentos: Registro[];
+  feriados: Registro[];
+  configuracoes: Registro;
+  cadastrosPendentes: Registro[]; // aguardando o código de verificação
+  proximoId: number;
+}
+
+// Logins de demonstração (senha em texto; os criados pelo painel chegam com hash bcrypt)
+export const USUARIOS_DEMO = {
+  admin: { email: 'admin@lopesclub.com', password: 'admin123' },
+  recepcao: { email: 'recepcao@lopesclub.com', password: 'recepcao123' },
+  barbeiro: { email: 'barbeiro@lopesclub.com', password: 'barbeiro123' },
+  cliente: { email: 'cliente@exemplo.com', password: 'cliente123' },
+};
+
+export function bancoInicial(hoje = hojeISO()): BancoMock {
+  const dia = (n: number) => somarDias(hoje, n);
+  return {
+    usuarios: [
+      { _id: 'u1', nome_completo: 'Administrador Lopes', username: USUARIOS_DEMO.admin.email, email: USUARIOS_DEMO.admin.email, tel: '11988887777', password: USUARIOS_DEMO.admin.password, isAdmin: true, role: 'owner', verificado: true },
+      { _id: 'u3', nome_completo: 'Recepção Lopes', username: USUARIOS_DEMO.recepcao.email, email: USUARIOS_DEMO.recepcao.email, tel: '11955550000', password: USUARIOS_DEMO.recepcao.password, role: 'receptionist', verificado: true },
+      { _id: 'u4', nome_completo: 'Rafael Souza', username: USUARIOS_DEMO.barbeiro.email, email: USUARIOS_DEMO.barbeiro.email, tel: '11955551111', password: USUARIOS_DEMO.barbeiro.password, role: 'barber', verificado: true },
+      { _id: 'u2', nome_completo: 'Cliente Exemplo', username: USUARIOS_DEMO.cliente.email, email: USUARIOS_DEMO.cliente.email, tel: '11977776666', password: USUARIOS_DEMO.cliente.password, verificado: true },
+    ],
+    servicos: [
+      { _id: 's1', nome: 'Corte', preco: 35, duracao: 30, descricao: 'Corte na máquina e tesoura', ativo: true, ordem: 1 },
+      { _id: 's2', nome: 'Barba', preco: 'R$ 25,00', duracao: 30, ativo: true, ordem: 2 },
+      { _id: 's3', nome: 'Corte + Barba', preco: 55, preco_promocional: 50, duracao: 60, ativo: true, ordem: 3 },
+      { _id: 's4', nome: 'Sobrancelha', preco: 15, duracao: 15, ativo: true, ordem: 4 },
+      { _id: 's5', nome: 'Pigmentação', preco: 40, duracao: 45, ativo: false, ordem: 5 },
+    ],
+    barbeiros: [
+      { _id: 'b1', nome: 'Lucas Lopes', bio: 'Fundador da casa, especialista em degradê.', servicos: [], ativo: true, ordem: 1 },
+      { _id: 'b2', nome: 'Rafael Souza', bio: 'Barba e acabamento na navalha.', servicos: ['s1', 's2', 's3'], ativo: true, ordem: 2 },
+      { _id: 'b3', nome: 'Diego Martins', servicos: ['s1', 's4'], ativo: false, ordem: 3 },
+    ],
+    agendamentos: [
+      { _id: 'a1', codigo: 'LC0001', nome: 'Cliente Exemplo', telefone: '11977776666', servico: 's1', data: dia(1), horario: '10:00', duracao: 30, barbeiro: 'b1', usuario_id: 'u2', status: 'confirmado' },
+      { _id: 'a2', codigo: 'LC0002', nome: 'João Pereira', telefone: '11966665555', servico: 's3', data: dia(1), hora: '14:00:00', duracao: 60, barbeiro: 'b2', status: 'pendente' },
+      { _id: 'a3', codigo: 'LC0003', nome: 'Marcos Silva', tel: '11955554444', servico: 's2', data: dia(2), horario: '09:30', barbeiro: 'b2' }, // anterior ao controle de status
+      { _id: 'a4', codigo: 'LC0004', nome: 'Cliente Exemplo', telefone: '11977776666', servico: 's3', data: dia(-7), horario: '16:00', duracao: 60, barbeiro: 'b1', usuario_id: 'u2', status: 'concluido' },
+    ],
+    feriados: [
+      { _id: 'f1', data: dia(10), nome: 'Aniversário da cidade', tipo: 'municipal', recorrente: true, fechado: false, faixas: [{ inicio: '09:00', fim: '13:00' }] },
+    ],
+    configuracoes: {}, // vazio: o site usa os valores padrão
+    cadastrosPendentes: [],
+    proximoId: 100,
+  };
+}
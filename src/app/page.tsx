@@ -2,12 +2,32 @@
 import { useState, useEffect, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import Image from "next/image";
+import Link from "next/link";
 import AgendamentoModal from "./components/AgendamentoModal";
 import LoginModal from "./components/LoginModal";
 import CadastroModal from "./components/CadastroModal";
 import PhoneModal from "./components/PhoneModal";
 
-import type { User } from "./types";
+import type { User } from "./types/index";
+import { criarLogger } from "./utils/log";
+import { useServicos } from "./hooks/useServicos";
+import { emPromocao, formatarPreco, precoVigente } from "./utils/servicos";
+import { useConfiguracoes } from "./hooks/useConfiguracoes";
+import { useAuth } from "./hooks/useAuth";
+import { descreverFuncionamento } from "./utils/funcionamento";
+import { linkWhatsApp } from "./utils/mensagens";
+
+// Ícones da tabela de preços por serviço; serviços novos usam o ícone padrão
+const ICONES_SERVICOS: Record<string, { src: string; alt: string }> = {
+  'corte': { src: '/assets/maquina.png', alt: 'Máquina' },
+  'barba': { src: '/assets/navalha.png', alt: 'Navalha' },
+  'cabelo-barba': { src: '/assets/tesoura.png', alt: 'Tesoura' },
+  'sombrancelha': { src: '/assets/barber.png', alt: 'Barber' },
+  'pezinho': { src: '/assets/pincel.png', alt: 'Pincel' },
+};
+const ICONE_SERVICO_PADRAO = { src: '/assets/tesoura.png', alt: 'Tesoura' };
+
+const log = criarLogger('inicio');
 
 function HomeContent() {
   const searchParams = useSearchParams();
@@ -15,35 +35,26 @@ function HomeContent() {
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [isCadastroModalOpen, setIsCadastroModalOpen] = useState(false);
   const [isPhoneModalOpen, setIsPhoneModalOpen] = useState(false);
+  const { servicos, loading: loadingServicos, erro: erroServicos } = useServicos();
+  const { configuracoes } = useConfiguracoes();
+  const linkContato = linkWhatsApp(configuracoes.contato.whatsapp, configuracoes.contato.mensagens.contato);
 
-  // Adiciona botão para painel admin (apenas para admin logado)
-  const [showAdminPanel, setShowAdminPanel] = useState(false);
-  useEffect(() => {
-    const userData = localStorage.getItem('user');
-    if (userData) {
-      const user = JSON.parse(userData);
-      if (user.isAdmin) {
-        setShowAdminPanel(true);
-      }
-    }
-  }, []);
+  const { user, pronto, pode } = useAuth();
+  // Botão para o painel admin (apenas para a equipe) e atalho para a área do cliente
+  const showAdminPanel = pode('painel.acessar');
+  const isLogado = !!user;
 
   useEffect(() => {
-    // Verificar se o usuário está logado
-    const userData = localStorage.getItem('user');
-    if (userData) {
-      const user = JSON.parse(userData);
-      if (process.env.NODE_ENV === 'development') {
-        console.log('Usuário logado detectado');
-      }
-
-      // Verificar se precisa do telefone (vindo do Google OAuth)
-      const needsPhone = searchParams.get('needsPhone');
-      if (needsPhone === 'true' && (!user.tel && !user.telefone)) {
+    // Verificar se precisa do telefone (vindo do Google OAuth)
+    if (user) {
+      log.debug('Usuário logado detectado');
+      if (searchParams.get('needsPhone') === 'true' && !user.telefone) {
         setIsPhoneModalOpen(true);
       }
     }
+  }, [pronto, searchParams]);
 
+  useEffect(() => {
     // Listener para abrir modal de login
     const handleOpenLoginModal = () => {
       setIsLoginModalOpen(true);
@@ -70,7 +81,7 @@ function HomeContent() {
       window.removeEventListener('openLoginModal', handleOpenLoginModal);
       window.removeEventListener('message', handleMessage);
     };
-  }, [searchParams]);
+  }, []);
 
   const openAgendamentoModal = () => setIsAgendamentoModalOpen(true);
   const closeAgendamentoModal = () => setIsAgendamentoModalOpen(false);
@@ -89,12 +100,10 @@ function HomeContent() {
 
   const onPhoneSuccess = () => {
     setIsPhoneModalOpen(false);
-    // Remover parâmetro da URL
+    // Remover parâmetro da URL (o telefone já foi gravado na sessão pelo PhoneModal)
     const url = new URL(window.location.href);
     url.searchParams.delete('needsPhone');
     window.history.replaceState({}, '', url.toString());
-    // Refresh da página para atualizar estado
-    window.location.reload();
   };
 
   const switchToCadastro = () => {
@@ -107,8 +116,7 @@ function HomeContent() {
     setIsLoginModalOpen(true);
   };
   const handleLoginSuccess = (userData: User) => {
-    // Salvar usuário no localStorage (já feito no modal)
-    window.dispatchEvent(new CustomEvent('userLoggedIn', { detail: userData }));
+    // A sessão já foi salva pelo useAuth no modal
     setIsAgendamentoModalOpen(true); // Abrir modal de agendamento após login
   };
 
@@ -166,86 +174,40 @@ function HomeContent() {
             
             {/* Lado direito - Lista de preços */}
             <div className="space-y-6">
-              <div className="flex items-center justify-between py-4 border-b border-gray-200">
-                <div className="flex items-center gap-4">
-                  <div className="w-8 h-8">
-                     <Image
-                      src="/assets/maquina.png"
-                      alt="Máquina"
-                      width={32}
-                      height={40}
-                      className="object-contain text-gray-600"
-                    />
+              {loadingServicos && (
+                <p className="text-gray-500">Carregando serviços...</p>
+              )}
+              {!loadingServicos && erroServicos && (
+                <p className="text-gray-500">Não foi possível carregar a tabela de preços no momento.</p>
+              )}
+              {servicos.map((servico, idx) => {
+                const icone = ICONES_SERVICOS[servico.id] || ICONE_SERVICO_PADRAO;
+                return (
+                  <div
+                    key={servico.id}
+                    className={`flex items-center justify-between py-4 ${idx < servicos.length - 1 ? 'border-b border-gray-200' : ''}`}
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="w-8 h-8">
+                        <Image
+                          src={icone.src}
+                          alt={icone.alt}
+                          width={32}
+                          height={40}
+                          className="object-contain text-gray-600"
+                        />
+                      </div>
+                      <span className="text-lg font-medium text-gray-800 uppercase">{servico.nome}</span>
+                    </div>
+                    <div className="text-right">
+                      {emPromocao(servico) && (
+                        <span className="block text-sm text-gray-400 line-through">{formatarPreco(servico.preco)}</span>
+                      )}
+                      <span className="text-xl font-bold text-gray-900">{formatarPreco(precoVigente(servico))}</span>
+                    </div>
                   </div>
-                  <span className="text-lg font-medium text-gray-800">CORTE</span>
-                </div>
-                <span className="text-xl font-bold text-gray-900">35,00</span>
-              </div>
-              
-              <div className="flex items-center justify-between py-4 border-b border-gray-200">
-                <div className="flex items-center gap-4">
-                  <div className="w-8 h-8">
-                    <Image
-                      src="/assets/navalha.png"
-                      alt="Navalha"
-                      width={32}
-                      height={40}
-                      className="object-contain text-gray-600"
-                    />
-                  </div>
-                  <span className="text-lg font-medium text-gray-800">BARBA</span>
-                </div>
-                <span className="text-xl font-bold text-gray-900">25,00</span>
-              </div>
-              
-              <div className="flex items-center justify-between py-4 border-b border-gray-200">
-                <div className="flex items-center gap-4">
-                  <div className="w-8 h-8">
-                    <Image
-                      src="/assets/tesoura.png"
-                      alt="Tesoura"
-                      width={32}
-                      height={40}
-                      className="object-contain text-gray-600"
-                    />
-                  </div>
-                  <span className="text-lg font-medium text-gray-800">CABELO E BARBA</span>
-                </div>
-                <span className="text-xl font-bold text-gray-900">60,00</span>
-              </div>
-              
-              <div className="flex items-center justify-between py-4 border-b border-gray-200">
-                <div className="flex items-center gap-4">
-                  <div className="w-8 h-8">
-                    <Image
-                      src="/assets/barber.png"
-                      alt="Barber"
-                      width={32}
-                      height={40}
-                      className="object-contain text-gray-600"
-                    />
-                  </div>
-                  <span className="text-lg font-medium text-gray-800">SOMBRANCELHA</span>
-                </div>
-                <span className="text-xl font-bold text-gray-900">15,00</span>
-              </div>
-              
-              <div className="flex items-center justify-between py-4">
-                <div className="flex items-center gap-4">
-                  <div className="w-8 h-8">
-                     <Image
-                      src="/assets/pincel.png"
-                      alt="Pincel"
-                      width={32}
-                      height={40}
-                      className="object-contain text-gray-600"
-                    />
-
-                  </div>
-                  <span className="text-lg font-medium text-gray-800">PEZINHO</span>
-                </div>
-                <span className="text-xl font-bold text-gray-900">10,00</span>
-              </div>
+                );
+              })}
             </div>
           </div>
         </div>
@@ -283,7 +245,7 @@ function HomeContent() {
                   <span className="text-blue-600 text-2xl mr-4">🕐</span>
                   <div>
                     <p className="font-semibold text-lg">Horário de Funcionamento</p>
-                    <p className="text-gray-600">Seg-Sex: 9h às 20h | Sáb: 8h às 18h</p>
+                    <p className="text-gray-600">{descreverFuncionamento(configuracoes.funcionamento).join(' | ')}</p>
                   </div>
                 </div>
                 <div className="flex items-center">
@@ -439,20 +401,20 @@ function HomeContent() {
               </button>
             </div>
             
-            {/* Agende WhatsApp */}
-            <div className="bg-black p-16 text-center">
+            {/* Agende WhatsApp: só com o número da barbearia informado no painel */}
+            {linkContato && <div className="bg-black p-16 text-center">
               <h3 className="text-3xl font-bold mb-8 text-white uppercase tracking-wider">
                 AGENDE WHATSAPP
               </h3>
               <a
-                href="https://wa.me/5511999999999?text=Olá!%20Gostaria%20de%20agendar%20um%20horário"
+                href={linkContato}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-block bg-green-600 hover:bg-green-700 text-white font-bold py-4 px-12 uppercase tracking-wider transition-all duration-300 transform hover:scale-105"
               >
                 📱 WHATSAPP
               </a>
-            </div>
+            </div>}
           </div>        </div>
       </section>
     </main>
@@ -479,14 +441,24 @@ function HomeContent() {
       onClose={closePhoneModal}
       onSuccess={onPhoneSuccess}
     />
-      {showAdminPanel && (
-        <div className="fixed top-4 right-4 z-[9999]">
-          <button
-            className="bg-yellow-500 text-black px-4 py-2 rounded shadow hover:bg-yellow-600 font-bold"
-            onClick={() => window.open('/admin', '_blank')}
-          >
-            Painel Admin
-          </button>
+      {(showAdminPanel || isLogado) && (
+        <div className="fixed top-4 right-4 z-[9999] flex flex-col items-end gap-2">
+          {showAdminPanel && (
+            <button
+              className="bg-yellow-500 text-black px-4 py-2 rounded shadow hover:bg-yellow-600 font-bold"
+              onClick={() => window.open('/admin', '_blank')}
+            >
+              Painel Admin
+            </button>
+          )}
+          {isLogado && (
+            <Link
+              href="/meus-agendamentos"
+              className="bg-white/90 text-black px-4 py-2 rounded shadow hover:bg-white font-bold text-sm"
+            >
+              Meus Agendamentos
+            </Link>
+          )}
         </div>
       )}
   </>
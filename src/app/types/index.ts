@@ -1,12 +1,21 @@
-// Tipos para a aplicação
+/**
+ * Modelo de domínio da aplicação. Os nomes usados pelo backend (`nome_completo`,
+ * `tel`, `hora`, `_id`...) ficam no contrato (utils/contrato), que converte nos dois sentidos.
+ */
 export interface User {
   id: string;
   nome: string;
   email: string;
-  telefone: string;
+  telefone?: string; // quem entra pelo Google ainda não informou
   username?: string;
+  foto?: string;
+  verificado?: boolean;
+  papeis: Papel[]; // nunca vazio: sem papel reconhecido vem ['customer'] (ver papeisDe em utils/contrato)
 }
 
+// Papéis de acesso, com os nomes que o backend usa; as permissões de cada um ficam em utils/permissoes
+export type Papel = 'owner' | 'manager' | 'barber' | 'receptionist' | 'customer';
+
 export interface LoginData {
   email: string;
   password: string;
@@ -20,27 +29,108 @@ export interface CadastroData {
 }
 
 export interface AgendamentoData {
-  id?: string | number;
-  _id?: string;
+  id?: string;
+  codigo?: string; // código curto informado ao cliente na confirmação
   nome: string;
   telefone: string;
   servico: string;
   data: string;
   horario: string;
-  hora?: string;
+  duracao?: number; // em minutos, copiada do serviço no momento do agendamento
+  barbeiro?: string; // id do barbeiro (cadeira) que atende
   usuario_id?: string;
+  status?: StatusAgendamento;
+  historico?: RegistroAlteracao[]; // cancelamentos, remarcações e mudanças de status, do mais antigo ao mais recente
 }
 
-export interface ApiResponse<T = unknown> {
-  success: boolean;
-  data?: T;
-  message?: string;
-  error?: string;
-  codigo_dev?: string;
+export type StatusAgendamento = 'pendente' | 'confirmado' | 'em_atendimento' | 'concluido' | 'nao_compareceu' | 'cancelado';
+
+// Quem cancelou, remarcou ou mudou o status de um agendamento, quando e por quê
+export interface RegistroAlteracao {
+  acao: 'cancelamento' | 'remarcacao' | 'status';
+  por: 'cliente' | 'admin';
+  usuario_id?: string;
+  nome?: string;
+  motivo?: string;
+  em: string; // ISO
+  tardio?: boolean; // cancelamento dentro da janela de cancelamento tardio
+  de?: { data: string; horario: string }; // horário anterior, nas remarcações
+  status?: StatusAgendamento; // novo status, nas mudanças de status
 }
 
 export interface Servico {
   id: string;
   nome: string;
-  preco: string;
+  preco: number;
+  preco_promocional?: number | null;
+  duracao: number; // em minutos
+  descricao?: string;
+  ativo: boolean;
+  ordem: number;
+}
+
+export type ServicoInput = Omit<Servico, 'id'>;
+
+export interface Barbeiro {
+  id: string;
+  nome: string;
+  foto?: string;
+  bio?: string;
+  servicos: string[]; // ids dos serviços que realiza; vazio = todos
+  ativo: boolean;
+  ordem: number;
+}
+
+export type BarbeiroInput = Omit<Barbeiro, 'id'>;
+
+export interface ConfiguracaoAgenda {
+  intervaloMinutos: number; // grade de horários de início oferecidos
+  duracaoPadraoMinutos: number; // usada quando não se sabe a duração de um agendamento existente
+  antecedenciaMinimaMinutos: number; // o cliente só agenda com pelo menos esse tempo de folga
+  horizonteDias: number; // até quantos dias à frente o cliente pode agendar
+}
+
+// Faixa de atendimento contínua, em "HH:mm" (fim exclusivo)
+export interface FaixaHorario {
+  inicio: string;
+  fim: string;
+}
+
+export interface HorarioFuncionamento {
+  semana: FaixaHorario[][]; // índice 0 = domingo ... 6 = sábado; lista vazia = fechado
+  excecoes: Record<string, FaixaHorario[]>; // por data "YYYY-MM-DD"; substitui o dia da semana
+}
+
+export interface Feriado {
+  id?: string;
+  data: string; // "YYYY-MM-DD"
+  nome: string;
+  tipo: 'nacional' | 'municipal';
+  recorrente?: boolean; // repete todo ano no mesmo dia/mês (municipais)
+  fechado: boolean; // false = abre em horário reduzido, conforme `faixas`
+  faixas?: FaixaHorario[];
+}
+
+export type FeriadoInput = Omit<Feriado, 'id'>;
+
+// Regras para o cliente cancelar ou remarcar pelo site (o admin não é limitado por elas)
+export interface PoliticaAgendamento {
+  antecedenciaMinimaHoras: number; // abaixo disso o cliente não cancela nem remarca
+  maxRemarcacoes: number; // remarcações feitas pelo cliente em um mesmo agendamento
+  janelaCancelamentoTardioHoras: number; // cancelamentos dentro dela contam como tardios
+}
+
+export type TipoMensagem = 'contato' | 'agendamento' | 'cancelamento' | 'lembrete';
+
+// Modelos de texto com marcadores como {nome}, {servico}, {data} e {horario}
+export interface ConfiguracaoContato {
+  whatsapp: string; // só dígitos, com DDI e DDD (ex.: 5511999999999)
+  mensagens: Record<TipoMensagem, string>;
+}
+
+export interface Configuracoes {
+  agenda: ConfiguracaoAgenda;
+  funcionamento: HorarioFuncionamento;
+  politica: PoliticaAgendamento;
+  contato: ConfiguracaoContato;
 }
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Barbeiro, ConfiguracaoAgenda, Servico } from "@/app/types/index";
+import {
+  calcularDisponibilidadePorBarbeiro,
+  calcularHorariosDisponiveis,
+  expedienteReservavel,
+  intervalosOcupados,
+  validarInicio,
+} from "@/app/utils/agenda";
+
+const servicos: Servico[] = [{ id: "s1", nome: "Corte", preco: 35, duracao: 45, ativo: true, ordem: 0 }];
+const barbeiro = (id: string): Barbeiro => ({ id, nome: id, servicos: [], ativo: true, ordem: 0 });
+
+describe("intervalosOcupados", () => {
+  it("usa a duração gravada, a do serviço ou a padrão", () => {
+    expect(intervalosOcupados([
+      { horario: "09:00", duracao: 20 },
+      { horario: "10:00", servico: "s1" },
+      "11:00",
+    ], servicos, 30)).toEqual([
+      { inicio: 540, fim: 560 },
+      { inicio: 600, fim: 645 },
+      { inicio: 660, fim: 690 },
+    ]);
+  });
+
+  it("ignora cancelados e o próprio agendamento em edição", () => {
+    expect(intervalosOcupados([
+      { id: "a1", horario: "09:00" },
+      { id: "a2", horario: "10:00", status: "cancelado" },
+      { id: "a3", horario: "11:00", historico: [{ acao: "cancelamento", por: "cliente", em: "2025-03-10T12:00:00.000Z" }] },
+    ], servicos, 30, "a1")).toEqual([]);
+  });
+});
+
+describe("calcularHorariosDisponiveis", () => {
+  const expediente = [{ inicio: 9 * 60, fim: 12 * 60 }];
+  const ocupados = [{ inicio: 10 * 60, fim: 11 * 60 }];
+
+  it("oferece os inícios da grade que não encostam em ocupados", () => {
+    expect(calcularHorariosDisponiveis({ expediente, ocupados, duracao: 30, intervaloMinutos: 30 }))
+      .toEqual(["09:00", "09:30", "11:00", "11:30"]);
+  });
+
+  it("exige que o serviço caiba inteiro antes do próximo ocupado e do fim do expediente", () => {
+    expect(calcularHorariosDisponiveis({ expediente, ocupados, duracao: 60, intervaloMinutos: 30 }))
+      .toEqual(["09:00", "11:00"]);
+  });
+
+  it("não oferece nada com duração ou grade inválidas", () => {
+    expect(calcularHorariosDisponiveis({ expediente, ocupados: [], duracao: 0, intervaloMinutos: 30 })).toEqual([]);
+    expect(calcularHorariosDisponiveis({ expediente, ocupados: [], duracao: 30, intervaloMinutos: 0 })).toEqual([]);
+  });
+});
+
+describe("calcularDisponibilidadePorBarbeiro", () => {
+  const base = {
+    expediente: [{ inicio: 9 * 60, fim: 10 * 60 }],
+    barbeiros: [barbeiro("b1"), barbeiro("b2")],
+    totalCadeiras: 2,
+    servicos,
+    duracaoPadrao: 30,
+    duracao: 30,
+    intervaloMinutos: 30,
+  };
+
+  it("lista os barbeiros livres em cada horário", () => {
+    expect(calcularDisponibilidadePorBarbeiro({ ...base, agendamentos: [{ id: "a1", horario: "09:00", duracao: 30, barbeiro: "b1" }] }))
+      .toEqual({ "09:00": ["b2"], "09:30": ["b1", "b2"] });
+  });
+
+  it("agendamento sem barbeiro ocupa uma cadeira qualquer", () => {
+    expect(calcularDisponibilidadePorBarbeiro({
+      ...base,
+      agendamentos: [{ id: "a1", horario: "09:00", duracao: 30, barbeiro: "b1" }, "09:00"],
+    })).toEqual({ "09:30": ["b1", "b2"] });
+  });
+
+  it("sem equipe cadastrada a agenda é uma cadeira só", () => {
+    expect(calcularDisponibilidadePorBarbeiro({ ...base, barbeiros: [], totalCadeiras: 0, agendamentos: ["09:00"] }))
+      .toEqual({ "09:30": [] });
+  });
+});
+
+describe("janela de agendamento", () => {
+  const agenda: ConfiguracaoAgenda = { intervaloMinutos: 30, duracaoPadraoMinutos: 30, antecedenciaMinimaMinutos: 60, horizonteDias: 30 };
+  const agora = new Date("2025-03-15T12:00:00Z"); // 15/03, 09:00 em São Paulo
+  const expediente = [{ inicio: 8 * 60, fim: 18 * 60 }];
+
+  it("corta do expediente de hoje o que está antes da antecedência mínima", () => {
+    expect(expedienteReservavel(expediente, "2025-03-15", agenda, agora)).toEqual([{ inicio: 10 * 60, fim: 18 * 60 }]);
+    expect(expedienteReservavel(expediente, "2025-03-16", agenda, agora)).toEqual(expediente);
+  });
+
+  it("fecha dias passados e além do horizonte", () => {
+    expect(expedienteReservavel(expediente, "2025-03-14", agenda, agora)).toEqual([]);
+    expect(expedienteReservavel(expediente, "2025-04-14", agenda, agora)).toEqual(expediente);
+    expect(expedienteReservavel(expediente, "2025-04-15", agenda, agora)).toEqual([]);
+  });
+
+  it("validarInicio recusa o que está fora da janela e explica o motivo", () => {
+    expect(validarInicio("2025-03-15", "10:00", agenda, agora)).toBeUndefined();
+    expect(validarInicio("2025-03-15", "09:30", agenda, agora)).toMatch(/pelo menos 1 hora de antecedência/);
+    expect(validarInicio("2025-03-15", "09:30", { ...agenda, antecedenciaMinimaMinutos: 90 }, agora)).toMatch(/1h30/);
+    expect(validarInicio("2025-03-15", "08:30", { ...agenda, antecedenciaMinimaMinutos: 0 }, agora)).toBe("Este horário já passou. Escolha outro.");
+    expect(validarInicio("2025-04-15", "10:00", agenda, agora)).toBe("Só é possível agendar até 14/04/2025.");
+  });
+});
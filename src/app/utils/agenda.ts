@@ -0,0 +1,192 @@
+import type { AgendamentoData, Barbeiro, ConfiguracaoAgenda, Servico } from "@/app/types/index";
+import { agoraNoFuso, formatarData, hojeISO, horaParaMinutos, minutosParaHora, pad, somarDias } from "@/app/utils/datas";
+
+// Intervalo de tempo dentro de um dia, em minutos desde 00:00 (fim exclusivo)
+export interface Intervalo {
+  inicio: number;
+  fim: number;
+}
+
+// Cancelados continuam no histórico, mas não ocupam a agenda
+export function estaCancelado(ag: Partial<AgendamentoData>): boolean {
+  return ag.status === 'cancelado' || (ag.historico || []).some((r) => r.acao === 'cancelamento');
+}
+
+// Código para o cliente citar à barbearia; sem código do backend, usa o fim do id
+export function codigoDoAgendamento(ag: Partial<AgendamentoData>): string {
+  if (ag.codigo) return String(ag.codigo);
+  return ag.id != null ? String(ag.id).slice(-6).toUpperCase() : '';
+}
+
+export function sobrepoe(a: Intervalo, b: Intervalo): boolean {
+  return a.inicio < b.fim && b.inicio < a.fim;
+}
+
+/**
+ * Duração de um agendamento existente: a gravada no próprio registro,
+ * senão a do serviço no catálogo, senão a duração padrão configurada.
+ */
+export function duracaoDoAgendamento(ag: Partial<AgendamentoData>, servicos: Servico[], duracaoPadrao: number): number {
+  if (ag.duracao && ag.duracao > 0) return ag.duracao;
+  const servico = servicos.find((s) => s.id === ag.servico);
+  return servico?.duracao || duracaoPadrao;
+}
+
+/**
+ * Converte agendamentos (ou horários soltos "HH:mm", como o backend às vezes devolve)
+ * em intervalos ocupados. `ignorarId` exclui o próprio agendamento durante uma edição.
+ */
+export function intervalosOcupados(
+  agendamentos: Array<Partial<AgendamentoData> | string>,
+  servicos: Servico[],
+  duracaoPadrao: number,
+  ignorarId?: string | number
+): Intervalo[] {
+  const out: Intervalo[] = [];
+  for (const item of agendamentos) {
+    const ag: Partial<AgendamentoData> = typeof item === 'string' ? { horario: item } : item;
+    if (ignorarId != null && ag.id != null && String(ag.id) === String(ignorarId)) continue;
+    if (estaCancelado(ag)) continue;
+    const inicio = horaParaMinutos(ag.horario || '');
+    if (Number.isNaN(inicio)) continue;
+    out.push({ inicio, fim: inicio + duracaoDoAgendamento(ag, servicos, duracaoPadrao) });
+  }
+  return out;
+}
+
+interface CalcularHorariosParams {
+  expediente: Intervalo[];
+  ocupados: Intervalo[];
+  duracao: number;
+  intervaloMinutos: number;
+}
+
+// Inícios candidatos na grade, com o serviço cabendo inteiro em uma faixa do expediente
+function candidatos(expediente: Intervalo[], duracao: number, intervaloMinutos: number): Intervalo[] {
+  const out: Intervalo[] = [];
+  if (!(duracao > 0) || !(intervaloMinutos > 0)) return out;
+  for (const faixa of expediente) {
+    const primeiro = Math.ceil(faixa.inicio / intervaloMinutos) * intervaloMinutos;
+    for (let m = primeiro; m + duracao <= faixa.fim; m += intervaloMinutos) {
+      out.push({ inicio: m, fim: m + duracao });
+    }
+  }
+  return out;
+}
+
+/**
+ * Horários de início livres para um serviço de `duracao` minutos.
+ * Os inícios seguem a grade (`intervaloMinutos`) a partir de 00:00 e o serviço
+ * precisa caber inteiro dentro de um intervalo de expediente sem encostar em nenhum ocupado.
+ */
+export function calcularHorariosDisponiveis({ expediente, ocupados, duracao, intervaloMinutos }: CalcularHorariosParams): string[] {
+  return candidatos(expediente, duracao, intervaloMinutos)
+    .filter((c) => !ocupados.some((o) => sobrepoe(c, o)))
+    .map((c) => minutosParaHora(c.inicio));
+}
+
+interface DisponibilidadePorBarbeiroParams {
+  expediente: Intervalo[];
+  agendamentos: Array<Partial<AgendamentoData> | string>;
+  barbeiros: Barbeiro[]; // apenas os que realizam o serviço escolhido
+  totalCadeiras: number; // barbeiros ativos na casa, atendam ou não o serviço (0 = sem equipe cadastrada)
+  servicos: Servico[];
+  duracaoPadrao: number;
+  duracao: number;
+  intervaloMinutos: number;
+  ignorarId?: string | number;
+}
+
+/**
+ * Disponibilidade com várias cadeiras: para cada início livre, os barbeiros que
+ * podem atender. Cada barbeiro tem a própria agenda; agendamentos sem barbeiro
+ * (antigos ou vindos só como "HH:mm") ocupam uma cadeira qualquer, então um
+ * horário só é oferecido enquanto sobrar cadeira para eles.
+ * Sem equipe cadastrada a agenda é única (uma cadeira) e as listas vêm vazias.
+ */
+export function calcularDisponibilidadePorBarbeiro(params: DisponibilidadePorBarbeiroParams): Record<string, string[]> {
+  const { expediente, agendamentos, barbeiros, totalCadeiras, servicos, duracaoPadrao, duracao, intervaloMinutos, ignorarId } = params;
+  if (totalCadeiras <= 0) {
+    const ocupados = intervalosOcupados(agendamentos, servicos, duracaoPadrao, ignorarId);
+    const livres = calcularHorariosDisponiveis({ expediente, ocupados, duracao, intervaloMinutos });
+    return Object.fromEntries(livres.map((h) => [h, []]));
+  }
+  const porBarbeiro = new Map<string, Array<Partial<AgendamentoData> | string>>();
+  const semBarbeiro: Array<Partial<AgendamentoData> | string> = [];
+  for (const item of agendamentos) {
+    const id = typeof item === 'string' ? undefined : item.barbeiro;
+    if (id) porBarbeiro.set(id, [...(porBarbeiro.get(id) || []), item]);
+    else semBarbeiro.push(item);
+  }
+  const ocupadosPorBarbeiro = new Map(Array.from(porBarbeiro, ([id, lista]) => [
+    id,
+    intervalosOcupados(lista, servicos, duracaoPadrao, ignorarId),
+  ] as const));
+  const ocupadosSemBarbeiro = intervalosOcupados(semBarbeiro, servicos, duracaoPadrao, ignorarId);
+
+  const out: Record<string, string[]> = {};
+  for (const c of candidatos(expediente, duracao, intervaloMinutos)) {
+    // Inclui barbeiros que não fazem este serviço: eles também ocupam cadeira
+    const ocupadosAgora = new Set(
+      Array.from(ocupadosPorBarbeiro)
+        .filter(([, lista]) => lista.some((o) => sobrepoe(c, o)))
+        .map(([id]) => id)
+    );
+    const livres = barbeiros.filter((b) => !ocupadosAgora.has(b.id)).map((b) => b.id);
+    const avulsos = ocupadosSemBarbeiro.filter((o) => sobrepoe(c, o)).length;
+    const cadeirasLivres = totalCadeiras - ocupadosAgora.size - avulsos;
+    if (livres.length > 0 && cadeirasLivres > 0) out[minutosParaHora(c.inicio)] = livres;
+  }
+  return out;
+}
+
+// "60 minutos", "1 hora", "1h30"
+function formatarAntecedencia(minutos: number): string {
+  if (minutos < 60) return `${minutos} minutos`;
+  if (minutos % 60 === 0) return `${minutos / 60} ${minutos === 60 ? 'hora' : 'horas'}`;
+  return `${Math.floor(minutos / 60)}h${pad(minutos % 60)}`;
+}
+
+// Último dia que o cliente pode escolher, conforme o horizonte configurado
+export function ultimoDiaReservavel(agenda: ConfiguracaoAgenda, agora: Date = new Date()): string {
+  return somarDias(hojeISO(agora), agenda.horizonteDias);
+}
+
+// Primeiro início aceito pelo site: agora mais a antecedência mínima, no relógio de São Paulo
+function primeiroInicio(agenda: ConfiguracaoAgenda, agora: Date) {
+  return agoraNoFuso(new Date(agora.getTime() + agenda.antecedenciaMinimaMinutos * 60_000));
+}
+
+/**
+ * Recorta o expediente de `data` à janela em que o cliente pode agendar:
+ * some o que já passou (ou está mais perto que a antecedência mínima) e
+ * os dias além do horizonte. A grade de inícios continua a mesma.
+ */
+export function expedienteReservavel(
+  expediente: Intervalo[],
+  data: string,
+  agenda: ConfiguracaoAgenda,
+  agora: Date = new Date()
+): Intervalo[] {
+  const limite = primeiroInicio(agenda, agora);
+  if (data < limite.data || data > ultimoDiaReservavel(agenda, agora)) return [];
+  if (data > limite.data) return expediente;
+  return expediente
+    .map((f) => ({ inicio: Math.max(f.inicio, limite.minutos), fim: f.fim }))
+    .filter((f) => f.inicio < f.fim);
+}
+
+// Motivo para recusar um início que deixou de valer (o cliente ficou com a tela aberta), ou undefined
+export function validarInicio(data: string, horario: string, agenda: ConfiguracaoAgenda, agora: Date = new Date()): string | undefined {
+  const limite = primeiroInicio(agenda, agora);
+  const inicio = horaParaMinutos(horario);
+  if (data < limite.data || (data === limite.data && inicio < limite.minutos)) {
+    return agenda.antecedenciaMinimaMinutos > 0
+      ? `Este horário já passou ou está muito próximo. Agende com pelo menos ${formatarAntecedencia(agenda.antecedenciaMinimaMinutos)} de antecedência.`
+      : 'Este horário já passou. Escolha outro.';
+  }
+  if (data > ultimoDiaReservavel(agenda, agora)) {
+    return `Só é possível agendar até ${formatarData(ultimoDiaReservavel(agenda, agora))}.`;
+  }
+  return undefined;
+}
@@ -1,63 +1,190 @@
+import type { AgendamentoData, Barbeiro, BarbeiroInput, CadastroData, Configuracoes, Feriado, FeriadoInput, LoginData, RegistroAlteracao, Servico, ServicoInput, StatusAgendamento, User } from "@/app/types/index";
+import { ordenarServicos } from "@/app/utils/servicos";
+import { ordenarBarbeiros } from "@/app/utils/barbeiros";
+import { registrarAlteracao } from "@/app/utils/politica";
+import { podeTransicionar, STATUS_AGENDAMENTO } from "@/app/utils/status";
+import {
+  agendamentoParaBackend,
+  cadastroParaBackend,
+  lerAgendamento,
+  lerAgendamentoSalvo,
+  lerBarbeiro,
+  lerCadastro,
+  lerConfiguracoes,
+  lerFeriado,
+  lerGoogleConfig,
+  lerHorarioOcupado,
+  lerItem,
+  lerLista,
+  lerRespostaSimples,
+  lerServico,
+  lerSessao,
+  lerUsuario,
+  loginParaBackend,
+  ErroDeContrato,
+} from "@/app/utils/contrato";
+import { ehErroApi, erroDaResposta, ErroDeRede, ErroDeValidacao, ErroDeTempoEsgotado, ErroNaoEncontrado, ErroSemPermissao } from "@/app/utils/erros";
+import { comecarEspera, marcarIndisponivel, marcarPronto } from "@/app/utils/servidor";
+import { invalidar } from "@/app/utils/consultas";
+import { criarLogger } from "@/app/utils/log";
+import { marcarSessaoExpirada, tokenDaSessao } from "@/app/utils/sessao";
+import type {
+  AtualizarTelefoneRequest,
+  CriarAdminRequest,
+  GoogleCallbackRequest,
+  GoogleConfig,
+  HorarioOcupado,
+  RespostaCadastro,
+  RespostaSimples,
+  Sessao,
+  VerificarCodigoRequest,
+} from "@/app/utils/contrato";
+
+const log = criarLogger('api');
+
+/**
+ * Rotas do backend, declaradas uma única vez: caminho, método e quem pode chamar.
+ * `acesso` decide se o `apiRequest` envia o token ('publica' não envia).
+ */
+export type MetodoHttp = 'GET' | 'POST' | 'PUT' | 'DELETE';
+export type AcessoRota = 'publica' | 'autenticada' | 'admin';
+
+export interface RotaApi {
+  metodo: MetodoHttp;
+  caminho: string;
+  acesso: AcessoRota;
+}
+
+const rota = (metodo: MetodoHttp, caminho: string, acesso: AcessoRota): RotaApi => ({ metodo, caminho, acesso });
+
 // Configuração da API para conectar com o backend externo
 export const API_CONFIG = {
   baseURL: process.env.NEXT_PUBLIC_API_URL || 'https://backbarbearialopez-r4bg.onrender.com',
-  endpoints: {    
+  endpoints: {
     auth: {
-      login: '/api/login',
-      cadastro: '/api/iniciar-cadastro',
-      verificarCodigo: '/api/verificar-codigo',
-      googleConfig: '/api/google-config',
-      googleCallback: '/api/auth/google/callback',
-      atualizarTelefone: '/api/atualizar-telefone'
+      login: rota('POST', '/api/login', 'publica'),
+      loginAdmin: rota('POST', '/auterota/login', 'publica'),
+      cadastro: rota('POST', '/api/iniciar-cadastro', 'publica'),
+      verificarCodigo: rota('POST', '/api/verificar-codigo', 'publica'),
+      googleConfig: rota('GET', '/api/google-config', 'publica'),
+      // O backend já respondeu o callback do Google em caminhos e métodos diferentes: tentamos nesta ordem
+      googleCallback: rota('POST', '/api/auth/google/callback', 'publica'),
+      googleCallbackGet: rota('GET', '/api/auth/google/callback', 'publica'),
+      googleCallbackAlternativo: rota('POST', '/auterota/google/callback', 'publica'),
+      googleCallbackAlternativoGet: rota('GET', '/auterota/google/callback', 'publica'),
+      atualizarTelefone: rota('PUT', '/auterota/atualizar-telefone', 'autenticada'),
+      sessao: rota('GET', '/api/me', 'autenticada'),
     },
     agendamentos: {
-      criar: '/api/agendar',
-      listar: '/api/agendamentos',
-      atualizar: (id: string | number) => `/api/agendar/${id}`,
-      remover: (id: string | number) => `/api/agendar/${id}`,
+      criar: rota('POST', '/api/agendar', 'autenticada'),
+      listar: rota('GET', '/api/agendamentos', 'publica'),
+      ocupados: rota('GET', '/auterota/agendamentos', 'autenticada'),
+      atualizar: (id: string | number) => rota('PUT', `/api/agendar/${id}`, 'autenticada'),
+    },
+    servicos: {
+      listar: rota('GET', '/api/servicos', 'publica'),
+      criar: rota('POST', '/api/servicos', 'admin'),
+      atualizar: (id: string | number) => rota('PUT', `/api/servicos/${id}`, 'admin'),
+      remover: (id: string | number) => rota('DELETE', `/api/servicos/${id}`, 'admin'),
+    },
+    barbeiros: {
+      listar: rota('GET', '/api/barbeiros', 'publica'),
+      criar: rota('POST', '/api/barbeiros', 'admin'),
+      atualizar: (id: string | number) => rota('PUT', `/api/barbeiros/${id}`, 'admin'),
+      remover: (id: string | number) => rota('DELETE', `/api/barbeiros/${id}`, 'admin'),
+    },
+    configuracoes: {
+      obter: rota('GET', '/api/configuracoes', 'publica'),
+      atualizar: rota('PUT', '/api/configuracoes', 'admin'),
+    },
+    feriados: {
+      listar: rota('GET', '/api/feriados', 'publica'),
+      criar: rota('POST', '/api/feriados', 'admin'),
+      atualizar: (id: string | number) => rota('PUT', `/api/feriados/${id}`, 'admin'),
+      remover: (id: string | number) => rota('DELETE', `/api/feriados/${id}`, 'admin'),
     },
     usuarios: {
-      listar: '/api/usuarios',
-      criar: '/api/criausuarios',
+      listar: rota('GET', '/api/usuarios', 'admin'),
     },
     admin: {
-      criarAdmin: '/api/criar-admin',
+      admins: rota('POST', '/api/admins', 'admin'),
     }
   }
 };
 
+// NEXT_PUBLIC_API_URL=mock: nada sai do navegador, quem responde é o backend simulado (mock/backend)
+const USANDO_MOCK = API_CONFIG.baseURL === 'mock';
+
+// Prazos e repetições. O backend roda no Render gratuito, que dorme quando fica parado:
+// a primeira requisição pode levar 30s ou mais, ou cair com 502/503 enquanto a instância sobe.
+const TEMPO_LIMITE_MS = 15_000; // por tentativa, nos métodos que podem ser repetidos
+const TEMPO_LIMITE_UNICO_MS = 60_000; // POST (e PUT com `tentativas: 1`) vão uma vez só: repetir poderia duplicar um agendamento
+const TENTATIVAS_IDEMPOTENTES = 4;
+const ESPERA_INICIAL_MS = 1_000; // dobra a cada nova tentativa
+const AVISO_ACORDANDO_MS = 3_000; // sem resposta depois disso, o servidor provavelmente está acordando
+
+const METODOS_IDEMPOTENTES = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const STATUS_TRANSITORIOS = [502, 503, 504];
+
+export type OpcoesRequisicao = Omit<RequestInit, 'method'> & {
+  query?: Record<string, string | undefined>; // vazios ficam de fora
+  timeoutMs?: number; // prazo de cada tentativa
+  tentativas?: number; // só vale para métodos idempotentes; 1 para PUT que não pode ser repetido
+};
+
+const esperar = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const podeRepetir = (e: unknown) =>
+  ehErroApi(e, 'rede', 'tempo_esgotado') || (ehErroApi(e, 'servidor') && STATUS_TRANSITORIOS.includes(e.status ?? 0));
+
+// Uma tentativa, abortada pelo prazo ou pelo `signal` de quem chamou
+async function buscarComPrazo(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const externo = init.signal;
+  const repassarAbort = () => controller.abort(externo?.reason);
+  if (externo?.aborted) repassarAbort();
+  else externo?.addEventListener('abort', repassarAbort);
+  let esgotou = false;
+  const prazo = setTimeout(() => {
+    esgotou = true;
+    controller.abort();
+  }, timeoutMs);
+  try {
+    const executar = USANDO_MOCK ? (await import('@/app/mock/backend')).responder : fetch;
+    return await executar(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (esgotou) throw new ErroDeTempoEsgotado();
+    // O fetch rejeita com TypeError quando não há resposta, com mensagem diferente em cada
+    // navegador ("Failed to fetch", "NetworkError when...", "Load failed" no Safari/iOS)
+    if (error instanceof TypeError && !controller.signal.aborted) throw new ErroDeRede();
+    throw error;
+  } finally {
+    clearTimeout(prazo);
+    externo?.removeEventListener('abort', repassarAbort);
+  }
+}
+
 // Função utilitária para fazer chamadas para a API
-export const apiRequest = async (endpoint: string, options: RequestInit & { skipAuth?: boolean } = {}) => {
+// Devolve o JSON cru (`unknown`): quem chama lê a resposta pelo contrato (utils/contrato)
+export const apiRequest = async (rota: RotaApi, options: OpcoesRequisicao = {}): Promise<unknown> => {
+  const { timeoutMs, tentativas, query, ...init } = options;
+  const params = new URLSearchParams(Object.entries(query ?? {}).filter((par): par is [string, string] => !!par[1])).toString();
   // Para este projeto, sempre usar o backend externo
-  const url = `${API_CONFIG.baseURL}${endpoint}`;
+  const url = `${API_CONFIG.baseURL}${rota.caminho}${params ? `?${params}` : ''}`;
   
   const defaultOptions: RequestInit = {
+    ...init,
+    method: rota.metodo,
     headers: {
       'Content-Type': 'application/json',
-      ...options.headers,
+      ...init.headers,
     },
-    ...options,
   };
-  // Adicionar token apenas se não for login, cadastro ou endpoints do Google OAuth
-  const isAuthEndpoint = endpoint.includes('/api/login') || 
-                         endpoint.includes('/api/cadastro') || 
-                         endpoint.includes('/api/iniciar-cadastro') || 
-                         endpoint.includes('/api/verificar-codigo') ||
-                         endpoint.includes('/api/google-config') ||
-                         endpoint.includes('/api/auth/google/callback') ||
-                         endpoint.includes('/api/agendamentos'); // Rota pública conforme backend
-  const skipAuth = (options as any).skipAuth === true;
-  if (!isAuthEndpoint && !skipAuth) {
-    let token: string | null = null;
-    if (typeof window !== 'undefined') {
-      token = localStorage.getItem('token') || localStorage.getItem('authToken');
-    }
-    // Optionally pick from cookies on server-side calls (when used in RSC, though apiRequest is client-first)
+  // Rotas públicas (login, cadastro, Google, leituras do site) vão sem token
+  if (rota.acesso !== 'publica') {
+    const token = tokenDaSessao();
     if (token) {
-      if (process.env.NODE_ENV !== 'production') {
-        console.log('🔑 Fazendo request autenticado...');
-        console.log('🔑 Endpoint sendo chamado:', endpoint);
-      }
+      log.debug('🔑 Request autenticado:', rota.caminho);
       // Try both formats - some backends expect different header formats
       defaultOptions.headers = {
         ...defaultOptions.headers,
@@ -65,263 +192,560 @@ export const apiRequest = async (endpoint: string, options: RequestInit & { skip
         'x-access-token': token, // Some backends use this format
       };
     } else {
-      if (process.env.NODE_ENV !== 'production') {
-        console.warn('⚠️ Nenhum token encontrado no localStorage para request autenticado');
-        console.warn('⚠️ Endpoint sendo chamado:', endpoint);
-      }
+      log.warn('⚠️ Nenhuma sessão para request autenticado:', rota.caminho);
     }
   }
+  const metodo = rota.metodo;
+  const idempotente = METODOS_IDEMPOTENTES.includes(metodo);
+  const maxTentativas = idempotente ? Math.max(1, tentativas ?? TENTATIVAS_IDEMPOTENTES) : 1;
+  const prazo = timeoutMs ?? (maxTentativas > 1 ? TEMPO_LIMITE_MS : TEMPO_LIMITE_UNICO_MS);
+
+  // Conta esta requisição no aviso de "acordando" (ver utils/servidor) até ela terminar
+  let encerrarEspera = null as (() => void) | null; // `as`: o TS não enxerga a atribuição dentro de esperarServidor
+  const esperarServidor = () => {
+    encerrarEspera ??= comecarEspera();
+  };
+
   try {
-    if (process.env.NODE_ENV !== 'production') {
-      console.log('🚀 Fazendo requisição para:', url);
-      console.log('📝 Método:', defaultOptions.method || 'GET');
-    }
-    
-    const response = await fetch(url, defaultOptions);
-    
-    if (process.env.NODE_ENV !== 'production') {
-      console.log('📥 Status da resposta:', response.status);
-      console.log('📥 Headers:', Object.fromEntries(response.headers.entries()));
-    }
-    if (!response.ok) {
-      // Tenta parsear JSON de erro e anexa status/dados ao Error
-      let errorData: any = null;
+    for (let tentativa = 1; ; tentativa++) {
+      const aviso = setTimeout(esperarServidor, AVISO_ACORDANDO_MS);
       try {
+        // A URL passa pelo logger: parâmetros como usuario_id saem ocultos
+        log.debug(`🚀 ${metodo} ${url}`, tentativa > 1 ? `(tentativa ${tentativa}/${maxTentativas})` : '');
+
+        const response = await buscarComPrazo(url, defaultOptions, prazo);
+        // Qualquer resposta que não seja do proxy do Render significa servidor de pé
+        if (!STATUS_TRANSITORIOS.includes(response.status)) marcarPronto();
+
+        log.debug('📥 Status da resposta:', response.status);
+        if (!response.ok) {
+          // Tenta parsear o JSON de erro; o tipo do ApiError sai do status (ver utils/erros)
+          let errorData: unknown = null;
+          try {
+            const text = await response.text();
+            if (text) {
+              errorData = JSON.parse(text);
+            }
+          } catch {
+            // Corpo que não é JSON (ex.: página de erro do proxy): fica só o status
+            errorData = null;
+          }
+          log.debug('❌ Erro do servidor:', response.status, errorData);
+          // DELETE repetido: a tentativa anterior apagou, só a resposta se perdeu
+          if (response.status === 404 && metodo === 'DELETE' && tentativa > 1) return {};
+          // Token recusado numa rota que exige sessão: avisa as telas (ver utils/sessao)
+          if (response.status === 401 && rota.acesso !== 'publica' && tokenDaSessao()) marcarSessaoExpirada();
+          throw erroDaResposta(response.status, errorData);
+        }
+
+        // Tenta parsear a resposta como JSON
         const text = await response.text();
-        if (text) {
-          errorData = JSON.parse(text);
+        if (!text || text.trim() === '') {
+          return {}; // Retorna objeto vazio se resposta vazia
         }
-      } catch {
-        // Se não conseguir parsear, use o texto como mensagem
-        errorData = { message: `Erro ${response.status}: ${response.statusText}` };
-      }
-      if (process.env.NODE_ENV !== 'production') {
-        console.log('❌ Erro do servidor - Status:', response.status);
-        console.log('❌ Dados do erro:', errorData);
-      }
-      const err: any = new Error(
-        (errorData && (errorData.message || errorData.error)) ||
-        (response.status === 401 ? 'Usuário não autenticado. Faça login novamente.' : `Erro no servidor (${response.status})`)
-      );
-      err.status = response.status;
-      err.data = errorData;
-      throw err;
-    }
 
-    // Tenta parsear a resposta como JSON
-    const text = await response.text();
-    if (!text || text.trim() === '') {
-      return {}; // Retorna objeto vazio se resposta vazia
-    }
-    
-    try {
-      const data = JSON.parse(text);
-      if (process.env.NODE_ENV !== 'production') {
-        console.log('✅ Request concluído com sucesso');
-        console.log('✅ Dados recebidos:', data);
-      }
-      return data;
-    } catch (jsonError) {
-      if (process.env.NODE_ENV !== 'production') {
-        console.error('❌ Erro ao parsear JSON:', jsonError);
-        console.error('❌ Resposta recebida:', text);
+        try {
+          const data = JSON.parse(text);
+          log.debug('✅ Dados recebidos:', data);
+          return data;
+        } catch (jsonError) {
+          log.error('❌ Resposta não é JSON:', jsonError, text);
+          throw new ErroDeContrato(rota.caminho, 'corpo', text);
+        }
+      } catch (error) {
+        // Erro de rede e prazo esgotado já chegam tipados do buscarComPrazo
+        if (podeRepetir(error) && tentativa < maxTentativas && !defaultOptions.signal?.aborted) {
+          esperarServidor();
+          await esperar(ESPERA_INICIAL_MS * 2 ** (tentativa - 1));
+          continue;
+        }
+        if (podeRepetir(error)) marcarIndisponivel();
+        throw error;
+      } finally {
+        clearTimeout(aviso);
       }
-      throw new Error('Resposta do servidor não é um JSON válido');
-    }
-  } catch (error) {
-    // Se for erro de rede (servidor não está rodando)
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error('Não foi possível conectar com o servidor. Verifique se o backend está rodando.');
     }
-    throw error;
+  } finally {
+    encerrarEspera?.();
   }
 };
 
+/**
+ * Aquecimento opcional: um GET leve assim que o site abre, para o servidor já estar
+ * acordado quando o cliente for agendar. Desligado com NEXT_PUBLIC_AQUECER_SERVIDOR=false.
+ */
+let aquecimento: Promise<void> | null = null;
+export const acordarServidor = (): Promise<void> => {
+  if (process.env.NEXT_PUBLIC_AQUECER_SERVIDOR === 'false') return Promise.resolve();
+  aquecimento ??= apiRequest(API_CONFIG.endpoints.configuracoes.obter, { timeoutMs: TEMPO_LIMITE_UNICO_MS })
+    .then(() => undefined)
+    .catch(() => undefined);
+  return aquecimento;
+};
+
 // ========== FUNÇÕES ESPECÍFICAS PARA CADA ENDPOINT ==========
 
 // Função para login
-export const login = async (credentials: { username: string; password: string }) => {
+export const login = async (credentials: LoginData): Promise<Sessao> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.auth.login, {
-      method: 'POST',
-      body: JSON.stringify(credentials),
-      skipAuth: true,
+    const rota = API_CONFIG.endpoints.auth.login;
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(loginParaBackend(credentials)),
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro no login:', error);
+    return lerSessao(response, rota.caminho);
+  } catch (error) {
+    log.error('Erro no login:', error);
+    throw error;
+  }
+};
+
+// Login do painel (rota própria do admin); a checagem de permissão fica na tela
+export const loginAdmin = async (credentials: LoginData): Promise<Sessao> => {
+  try {
+    const rota = API_CONFIG.endpoints.auth.loginAdmin;
+    // Esta rota recebe o e-mail em `email`, não em `username`
+    const response = await apiRequest(rota, {
+      body: JSON.stringify({ email: credentials.email, password: credentials.password }),
+    });
+    return lerSessao(response, rota.caminho);
+  } catch (error) {
+    log.error('Erro no login do admin:', error);
     throw error;
   }
 };
 
 // Função para iniciar cadastro
-export const iniciarCadastro = async (userData: any) => {
+export const iniciarCadastro = async (userData: CadastroData): Promise<RespostaCadastro> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.auth.cadastro, {
-      method: 'POST',
-      body: JSON.stringify(userData),
-      skipAuth: true,
+    const rota = API_CONFIG.endpoints.auth.cadastro;
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(cadastroParaBackend(userData)),
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao iniciar cadastro:', error);
+    return lerCadastro(response, rota.caminho);
+  } catch (error) {
+    log.error('Erro ao iniciar cadastro:', error);
     throw error;
   }
 };
 
 // Função para verificar código
-export const verificarCodigo = async (data: any) => {
+export const verificarCodigo = async (data: VerificarCodigoRequest): Promise<RespostaSimples> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.auth.verificarCodigo, {
-      method: 'POST',
+    const rota = API_CONFIG.endpoints.auth.verificarCodigo;
+    const response = await apiRequest(rota, {
       body: JSON.stringify(data),
-      skipAuth: true,
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao verificar código:', error);
+    return lerRespostaSimples(response, rota.caminho);
+  } catch (error) {
+    log.error('Erro ao verificar código:', error);
     throw error;
   }
 };
 
 // Função para callback do Google OAuth
-export const googleCallback = async (data: any) => {
+// Tenta o POST principal; se o backend não conhece a rota (404/405), percorre as alternativas
+// de API_CONFIG.endpoints.auth na ordem: GET no mesmo caminho, POST e GET sem '/auth'
+export const googleCallback = async (data: GoogleCallbackRequest): Promise<Sessao> => {
+  const { auth } = API_CONFIG.endpoints;
+  const body = JSON.stringify(data);
+  const query = { code: data.code, state: data.state, redirect_uri: data.redirect_uri };
+  const [principal, ...alternativas]: [RotaApi, OpcoesRequisicao][] = [
+    [auth.googleCallback, { body }],
+    [auth.googleCallbackGet, { query }],
+    [auth.googleCallbackAlternativo, { body }],
+    [auth.googleCallbackAlternativoGet, { query }],
+  ];
+  const tentar = async ([rota, opcoes]: [RotaApi, OpcoesRequisicao]) => lerSessao(await apiRequest(rota, opcoes), rota.caminho);
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.auth.googleCallback, {
-      method: 'POST',
-      body: JSON.stringify(data),
-      skipAuth: true,
-    });
-    return response;
-  } catch (error: any) {
-    console.error('Erro no callback do Google:', error);
+    try {
+      return await tentar(principal);
+    } catch (error) {
+      if (!ehErroApi(error, 'nao_encontrado')) throw error;
+    }
+    for (const [indice, alternativa] of alternativas.entries()) {
+      log.debug('⚠️ Tentando métodos alternativos de autenticação...');
+      try {
+        return await tentar(alternativa);
+      } catch (error) {
+        if (indice === alternativas.length - 1) throw error;
+      }
+    }
+    throw new ErroNaoEncontrado(); // inalcançável: a última alternativa relança o próprio erro
+  } catch (error) {
+    log.error('Erro no callback do Google:', error);
     throw error;
   }
 };
 
 // Função para obter configuração do Google OAuth
-export const getGoogleConfig = async () => {
+export const getGoogleConfig = async (): Promise<GoogleConfig> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.auth.googleConfig, {
-      method: 'GET',
-      skipAuth: true,
-    });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao obter configuração do Google:', error);
+    const rota = API_CONFIG.endpoints.auth.googleConfig;
+    const response = await apiRequest(rota);
+    return lerGoogleConfig(response, rota.caminho);
+  } catch (error) {
+    log.error('Erro ao obter configuração do Google:', error);
     throw error;
   }
 };
 
 // Função para atualizar telefone
-export const atualizarTelefone = async (telefoneData: any) => {
+export const atualizarTelefone = async (telefoneData: AtualizarTelefoneRequest): Promise<RespostaSimples> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.auth.atualizarTelefone, {
-      method: 'PUT',
+    const rota = API_CONFIG.endpoints.auth.atualizarTelefone;
+    const response = await apiRequest(rota, {
       body: JSON.stringify(telefoneData),
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao atualizar telefone:', error);
+    return lerRespostaSimples(response, rota.caminho);
+  } catch (error) {
+    log.error('Erro ao atualizar telefone:', error);
     throw error;
   }
 };
 
-// Função para criar agendamento
-export const criarAgendamento = async (agendamentoData: any) => {
+// Função para criar agendamento; devolve o agendamento gravado (com id/código do backend)
+export const criarAgendamento = async (agendamentoData: Partial<AgendamentoData>): Promise<AgendamentoData> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.agendamentos.criar, {
-      method: 'POST',
-      body: JSON.stringify(agendamentoData),
+    const rota = API_CONFIG.endpoints.agendamentos.criar;
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(agendamentoParaBackend(agendamentoData)),
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao criar agendamento:', error);
+    // Backend retorna { success: true, agendamento: {...} } (ou `data`)
+    const agendamento = lerAgendamentoSalvo(response, rota.caminho, agendamentoData);
+    invalidar('agendamentos', 'ocupados');
+    return agendamento;
+  } catch (error) {
+    log.error('Erro ao criar agendamento:', error);
     throw error;
   }
 };
 
-// Função para listar agendamentos
-export const listarAgendamentos = async () => {
+// Função para listar agendamentos (com `usuario_id`, só os daquele cliente)
+export const listarAgendamentos = async (filtros: { usuario_id?: string } = {}): Promise<AgendamentoData[]> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.agendamentos.listar, {
-      method: 'GET',
-      skipAuth: true, // Rota pública conforme seu backend
-    });
+    const rota = API_CONFIG.endpoints.agendamentos.listar;
+    const response = await apiRequest(rota, { query: { usuario_id: filtros.usuario_id } });
     // Backend retorna { success: true, data: [...] }
-    return response.data || response;
-  } catch (error: any) {
-    console.error('Erro ao listar agendamentos:', error);
+    const agendamentos = lerLista(response, rota.caminho, 'agendamentos', lerAgendamento);
+    // A rota é pública e pode ignorar o filtro: nunca devolve agendamentos de outro cliente
+    return filtros.usuario_id
+      ? agendamentos.filter((a) => String(a.usuario_id) === String(filtros.usuario_id))
+      : agendamentos;
+  } catch (error) {
+    log.error('Erro ao listar agendamentos:', error);
+    throw error;
+  }
+};
+
+// Horários já ocupados em uma data, para montar a agenda do site
+export const listarHorariosOcupados = async (data: string, servico: string): Promise<HorarioOcupado[]> => {
+  try {
+    const rota = API_CONFIG.endpoints.agendamentos.ocupados;
+    const response = await apiRequest(rota, { query: { data, servico } });
+    return lerLista(response, rota.caminho, 'data', lerHorarioOcupado);
+  } catch (error) {
+    log.error('Erro ao listar horários ocupados:', error);
     throw error;
   }
 };
 
 // Função para atualizar agendamento
-export const atualizarAgendamento = async (id: string, agendamentoData: any) => {
+export const atualizarAgendamento = async (
+  id: string,
+  agendamentoData: Partial<AgendamentoData>,
+  { tentativas }: Pick<OpcoesRequisicao, 'tentativas'> = {}
+): Promise<AgendamentoData> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.agendamentos.atualizar(id), {
-      method: 'PUT',
-      body: JSON.stringify(agendamentoData),
+    const rota = API_CONFIG.endpoints.agendamentos.atualizar(id);
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(agendamentoParaBackend(agendamentoData)),
+      tentativas,
     });
     // Backend retorna { success: true, agendamento: {...} }
-    return response.agendamento || response;
-  } catch (error: any) {
-    console.error('Erro ao atualizar agendamento:', error);
+    const agendamento = lerAgendamentoSalvo(response, rota.caminho, { id, ...agendamentoData });
+    invalidar('agendamentos', 'ocupados');
+    return agendamento;
+  } catch (error) {
+    log.error('Erro ao atualizar agendamento:', error);
+    throw error;
+  }
+};
+
+// Cancela sem apagar: o agendamento fica no histórico com quem cancelou e por quê.
+// Vai uma vez só: se a resposta se perder, repetir acrescentaria o registro de novo
+export const cancelarAgendamento = async (agendamento: AgendamentoData, registro: Omit<RegistroAlteracao, 'acao' | 'em'>): Promise<AgendamentoData> => {
+  return atualizarAgendamento(String(agendamento.id), {
+    ...agendamento,
+    status: 'cancelado',
+    historico: registrarAlteracao(agendamento, { ...registro, acao: 'cancelamento' }),
+  }, { tentativas: 1 });
+};
+
+// Muda o status respeitando as transições permitidas (ex.: confirmado → em atendimento)
+export const alterarStatusAgendamento = async (
+  agendamento: AgendamentoData,
+  status: StatusAgendamento,
+  registro: Omit<RegistroAlteracao, 'acao' | 'em' | 'status'>
+): Promise<AgendamentoData> => {
+  const atual = agendamento.status || 'confirmado';
+  if (!podeTransicionar(atual, status)) {
+    throw new ErroDeValidacao(`Não é possível passar de "${STATUS_AGENDAMENTO[atual].rotulo}" para "${STATUS_AGENDAMENTO[status].rotulo}".`);
+  }
+  if (status === 'cancelado') return cancelarAgendamento(agendamento, registro);
+  return atualizarAgendamento(String(agendamento.id), {
+    ...agendamento,
+    status,
+    historico: registrarAlteracao(agendamento, { ...registro, acao: 'status', status }),
+  }, { tentativas: 1 }); // como no cancelamento, não repete
+};
+
+// Função para listar o catálogo de serviços (inclui inativos; quem exibe decide filtrar)
+export const listarServicos = async (): Promise<Servico[]> => {
+  try {
+    const rota = API_CONFIG.endpoints.servicos.listar;
+    const response = await apiRequest(rota);
+    return ordenarServicos(lerLista(response, rota.caminho, 'servicos', lerServico));
+  } catch (error) {
+    log.error('Erro ao listar serviços:', error);
     throw error;
   }
 };
 
-// Função para deletar agendamento
-export const deletarAgendamento = async (id: string) => {
+// Função para criar serviço (admin)
+export const criarServico = async (servicoData: ServicoInput): Promise<Servico> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.agendamentos.remover(id), {
-      method: 'DELETE',
+    const rota = API_CONFIG.endpoints.servicos.criar;
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(servicoData),
     });
-    // Backend retorna { success: true, message: "Agendamento excluído" }
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao deletar agendamento:', error);
+    const servico = lerItem(response, rota.caminho, 'servico', lerServico);
+    invalidar('servicos');
+    return servico;
+  } catch (error) {
+    log.error('Erro ao criar serviço:', error);
     throw error;
   }
 };
 
-// Função para listar usuários
-export const listarUsuarios = async () => {
+// Função para atualizar serviço (admin) - aceita alteração parcial, ex.: só `ativo` ou `ordem`
+export const atualizarServico = async (id: string, servicoData: Partial<ServicoInput>): Promise<Servico> => {
+  try {
+    const rota = API_CONFIG.endpoints.servicos.atualizar(id);
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(servicoData),
+    });
+    const servico = lerItem(response, rota.caminho, 'servico', lerServico);
+    invalidar('servicos');
+    return servico;
+  } catch (error) {
+    log.error('Erro ao atualizar serviço:', error);
+    throw error;
+  }
+};
+
+// Função para remover serviço (admin)
+export const removerServico = async (id: string): Promise<RespostaSimples> => {
+  try {
+    const rota = API_CONFIG.endpoints.servicos.remover(id);
+    const response = await apiRequest(rota);
+    const resposta = lerRespostaSimples(response, rota.caminho);
+    invalidar('servicos');
+    return resposta;
+  } catch (error) {
+    log.error('Erro ao remover serviço:', error);
+    throw error;
+  }
+};
+
+// Função para listar a equipe (inclui inativos; quem exibe decide filtrar)
+export const listarBarbeiros = async (): Promise<Barbeiro[]> => {
+  try {
+    const rota = API_CONFIG.endpoints.barbeiros.listar;
+    const response = await apiRequest(rota);
+    return ordenarBarbeiros(lerLista(response, rota.caminho, 'barbeiros', lerBarbeiro));
+  } catch (error) {
+    log.error('Erro ao listar barbeiros:', error);
+    throw error;
+  }
+};
+
+// Função para cadastrar barbeiro (admin)
+export const criarBarbeiro = async (barbeiroData: BarbeiroInput): Promise<Barbeiro> => {
+  try {
+    const rota = API_CONFIG.endpoints.barbeiros.criar;
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(barbeiroData),
+    });
+    const barbeiro = lerItem(response, rota.caminho, 'barbeiro', lerBarbeiro);
+    invalidar('barbeiros');
+    return barbeiro;
+  } catch (error) {
+    log.error('Erro ao criar barbeiro:', error);
+    throw error;
+  }
+};
+
+// Função para atualizar barbeiro (admin)
+export const atualizarBarbeiro = async (id: string, barbeiroData: Partial<BarbeiroInput>): Promise<Barbeiro> => {
+  try {
+    const rota = API_CONFIG.endpoints.barbeiros.atualizar(id);
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(barbeiroData),
+    });
+    const barbeiro = lerItem(response, rota.caminho, 'barbeiro', lerBarbeiro);
+    invalidar('barbeiros');
+    return barbeiro;
+  } catch (error) {
+    log.error('Erro ao atualizar barbeiro:', error);
+    throw error;
+  }
+};
+
+// Função para remover barbeiro (admin)
+export const removerBarbeiro = async (id: string): Promise<RespostaSimples> => {
+  try {
+    const rota = API_CONFIG.endpoints.barbeiros.remover(id);
+    const response = await apiRequest(rota);
+    const resposta = lerRespostaSimples(response, rota.caminho);
+    invalidar('barbeiros');
+    return resposta;
+  } catch (error) {
+    log.error('Erro ao remover barbeiro:', error);
+    throw error;
+  }
+};
+
+// Função para obter as configurações da barbearia (agenda, etc.), já mescladas com os padrões
+export const obterConfiguracoes = async (): Promise<Configuracoes> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.usuarios.listar, {
-      method: 'GET',
+    const rota = API_CONFIG.endpoints.configuracoes.obter;
+    const response = await apiRequest(rota);
+    return lerItem(response, rota.caminho, 'configuracoes', lerConfiguracoes);
+  } catch (error) {
+    log.error('Erro ao obter configurações:', error);
+    throw error;
+  }
+};
+
+// Salva uma ou mais seções das configurações; as demais ficam como estão no backend
+export const salvarConfiguracoes = async (parcial: Partial<Configuracoes>): Promise<Configuracoes> => {
+  try {
+    const rota = API_CONFIG.endpoints.configuracoes.atualizar;
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(parcial),
+    });
+    const configuracoes = lerItem(response, rota.caminho, 'configuracoes', lerConfiguracoes);
+    invalidar('configuracoes');
+    return configuracoes;
+  } catch (error) {
+    log.error('Erro ao salvar configurações:', error);
+    throw error;
+  }
+};
+
+// Função para listar feriados cadastrados no painel (municipais e ajustes de nacionais).
+// Os nacionais em si são calculados localmente em utils/feriados.
+export const listarFeriados = async (): Promise<Feriado[]> => {
+  try {
+    const rota = API_CONFIG.endpoints.feriados.listar;
+    const response = await apiRequest(rota);
+    return lerLista(response, rota.caminho, 'feriados', lerFeriado);
+  } catch (error) {
+    log.error('Erro ao listar feriados:', error);
+    throw error;
+  }
+};
+
+// Função para cadastrar feriado (admin)
+export const criarFeriado = async (feriadoData: FeriadoInput): Promise<Feriado> => {
+  try {
+    const rota = API_CONFIG.endpoints.feriados.criar;
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(feriadoData),
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao listar usuários:', error);
+    const feriado = lerItem(response, rota.caminho, 'feriado', lerFeriado);
+    invalidar('feriados');
+    return feriado;
+  } catch (error) {
+    log.error('Erro ao criar feriado:', error);
     throw error;
   }
 };
 
-// Função para criar usuário
-export const criarUsuario = async (userData: any) => {
+// Função para atualizar feriado (admin)
+export const atualizarFeriado = async (id: string, feriadoData: Partial<FeriadoInput>): Promise<Feriado> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.usuarios.criar, {
-      method: 'POST',
-      body: JSON.stringify(userData),
+    const rota = API_CONFIG.endpoints.feriados.atualizar(id);
+    const response = await apiRequest(rota, {
+      body: JSON.stringify(feriadoData),
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao criar usuário:', error);
+    const feriado = lerItem(response, rota.caminho, 'feriado', lerFeriado);
+    invalidar('feriados');
+    return feriado;
+  } catch (error) {
+    log.error('Erro ao atualizar feriado:', error);
     throw error;
   }
 };
 
-// Função para criar admin
-export const criarAdmin = async (adminData: any) => {
+// Função para remover feriado (admin). Para um nacional, volta à regra padrão (fechado).
+export const removerFeriado = async (id: string): Promise<RespostaSimples> => {
   try {
-    const response = await apiRequest(API_CONFIG.endpoints.admin.criarAdmin, {
-      method: 'POST',
+    const rota = API_CONFIG.endpoints.feriados.remover(id);
+    const response = await apiRequest(rota);
+    const resposta = lerRespostaSimples(response, rota.caminho);
+    invalidar('feriados');
+    return resposta;
+  } catch (error) {
+    log.error('Erro ao remover feriado:', error);
+    throw error;
+  }
+};
+
+/**
+ * Confere no backend a sessão de quem está logado: o token ainda vale e os papéis
+ * são os atuais. Backend sem /api/me (404/405): procura o usuário na lista de usuários,
+ * que também exige token de admin.
+ */
+export const verificarSessao = async (usuario: User): Promise<User> => {
+  try {
+    const rota = API_CONFIG.endpoints.auth.sessao;
+    try {
+      return lerItem(await apiRequest(rota), rota.caminho, 'user', lerUsuario);
+    } catch (error) {
+      if (!ehErroApi(error, 'nao_encontrado')) throw error;
+    }
+    const encontrado = (await listarUsuarios()).find((u) => u.id === usuario.id);
+    if (!encontrado) throw new ErroSemPermissao();
+    return encontrado;
+  } catch (error) {
+    log.error('Erro ao verificar a sessão:', error);
+    throw error;
+  }
+};
+
+// Função para listar usuários
+export const listarUsuarios = async (): Promise<User[]> => {
+  try {
+    const rota = API_CONFIG.endpoints.usuarios.listar;
+    const response = await apiRequest(rota);
+    return lerLista(response, rota.caminho, 'usuarios', lerUsuario);
+  } catch (error) {
+    log.error('Erro ao listar usuários:', error);
+    throw error;
+  }
+};
+
+// Criação de admin pela rota dedicada (/api/admins), usada pelas telas de criar admin
+export const criarAdminDedicado = async (adminData: CriarAdminRequest): Promise<RespostaSimples> => {
+  try {
+    const rota = API_CONFIG.endpoints.admin.admins;
+    const response = await apiRequest(rota, {
       body: JSON.stringify(adminData),
     });
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao criar admin:', error);
+    return lerRespostaSimples(response, rota.caminho);
+  } catch (error) {
+    log.error('Erro ao criar admin:', error);
     throw error;
   }
 };
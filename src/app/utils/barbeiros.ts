@@ -0,0 +1,16 @@
+import type { Barbeiro } from "@/app/types/index";
+
+export function ordenarBarbeiros(barbeiros: Barbeiro[]): Barbeiro[] {
+  return [...barbeiros].sort((a, b) => a.ordem - b.ordem || a.nome.localeCompare(b.nome, 'pt-BR'));
+}
+
+// Barbeiro sem lista de serviços atende todos
+export function atendeServico(barbeiro: Barbeiro, servicoId?: string): boolean {
+  if (!servicoId || barbeiro.servicos.length === 0) return true;
+  return barbeiro.servicos.includes(servicoId);
+}
+
+export function nomeDoBarbeiro(barbeiros: Barbeiro[], id?: string): string {
+  if (!id) return '';
+  return barbeiros.find((b) => b.id === id)?.nome || id;
+}
@@ -0,0 +1,104 @@
+import type { Configuracoes, FaixaHorario, TipoMensagem } from "@/app/types/index";
+
+// Valores usados enquanto o backend não responde ou quando um campo não foi configurado
+export const CONFIGURACOES_PADRAO: Configuracoes = {
+  agenda: {
+    intervaloMinutos: 15,
+    duracaoPadraoMinutos: 60,
+    antecedenciaMinimaMinutos: 60,
+    horizonteDias: 30,
+  },
+  funcionamento: {
+    semana: [
+      [], // domingo: fechado
+      [{ inicio: '09:00', fim: '20:00' }],
+      [{ inicio: '09:00', fim: '20:00' }],
+      [{ inicio: '09:00', fim: '20:00' }],
+      [{ inicio: '09:00', fim: '20:00' }],
+      [{ inicio: '09:00', fim: '20:00' }],
+      [{ inicio: '08:00', fim: '18:00' }],
+    ],
+    excecoes: {},
+  },
+  politica: {
+    antecedenciaMinimaHoras: 2,
+    maxRemarcacoes: 2,
+    janelaCancelamentoTardioHoras: 24,
+  },
+  contato: {
+    whatsapp: '', // informado pelo admin no painel; até lá o site não mostra os botões de WhatsApp
+    mensagens: {
+      contato: 'Olá! Gostaria de agendar um horário',
+      agendamento: `Olá! Acabei de agendar pelo site:
+
+🔖 Código: {codigo}
+👤 Nome: {nome}
+📞 Telefone: {telefone}
+✂️ Serviço: {servico} ({preco})
+📅 Data: {data}
+🕐 Horário: {horario}
+💈 Barbeiro: {barbeiro}`,
+      cancelamento: `Olá, {nome}! Seu agendamento de {servico} em {data} às {horario} foi cancelado.
+Motivo: {motivo}
+Se quiser, é só agendar um novo horário pelo site.`,
+      lembrete: `Olá, {nome}! Passando para lembrar do seu horário na Lopes Club:
+✂️ {servico} em {data} às {horario}
+💈 Barbeiro: {barbeiro}
+Até lá!`,
+    },
+  },
+};
+
+const isFaixa = (f: any): f is FaixaHorario =>
+  !!f && /^\d{2}:\d{2}$/.test(f.inicio) && /^\d{2}:\d{2}$/.test(f.fim);
+
+const normalizarFaixas = (faixas: any): FaixaHorario[] =>
+  Array.isArray(faixas) ? faixas.filter(isFaixa).map((f) => ({ inicio: f.inicio, fim: f.fim })) : [];
+
+/**
+ * Mescla as configurações salvas no backend sobre os valores padrão,
+ * seção por seção, para que campos ausentes nunca fiquem `undefined`.
+ */
+export function normalizarConfiguracoes(raw: any): Configuracoes {
+  const agenda = { ...CONFIGURACOES_PADRAO.agenda, ...(raw?.agenda || {}) };
+
+  const semanaRaw = raw?.funcionamento?.semana;
+  const semana = Array.isArray(semanaRaw) && semanaRaw.length === 7
+    ? semanaRaw.map(normalizarFaixas)
+    : CONFIGURACOES_PADRAO.funcionamento.semana;
+  const excecoes: Record<string, FaixaHorario[]> = {};
+  for (const [data, faixas] of Object.entries(raw?.funcionamento?.excecoes || {})) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(data)) excecoes[data] = normalizarFaixas(faixas);
+  }
+
+  const politica = { ...CONFIGURACOES_PADRAO.politica, ...(raw?.politica || {}) };
+  // Zero é um valor válido aqui (ex.: não permitir remarcações)
+  const naoNegativo = (v: any, padrao: number) => (Number.isFinite(Number(v)) && Number(v) >= 0 ? Number(v) : padrao);
+
+  const mensagens = { ...CONFIGURACOES_PADRAO.contato.mensagens };
+  for (const tipo of Object.keys(mensagens) as TipoMensagem[]) {
+    const modelo = raw?.contato?.mensagens?.[tipo];
+    if (typeof modelo === 'string' && modelo.trim()) mensagens[tipo] = modelo;
+  }
+  const whatsapp = String(raw?.contato?.whatsapp || '').replace(/\D/g, '');
+
+  return {
+    agenda: {
+      ...agenda,
+      intervaloMinutos: Number(agenda.intervaloMinutos) > 0 ? Number(agenda.intervaloMinutos) : CONFIGURACOES_PADRAO.agenda.intervaloMinutos,
+      duracaoPadraoMinutos: Number(agenda.duracaoPadraoMinutos) > 0 ? Number(agenda.duracaoPadraoMinutos) : CONFIGURACOES_PADRAO.agenda.duracaoPadraoMinutos,
+      antecedenciaMinimaMinutos: naoNegativo(agenda.antecedenciaMinimaMinutos, CONFIGURACOES_PADRAO.agenda.antecedenciaMinimaMinutos),
+      horizonteDias: Number(agenda.horizonteDias) > 0 ? Number(agenda.horizonteDias) : CONFIGURACOES_PADRAO.agenda.horizonteDias,
+    },
+    funcionamento: { semana, excecoes },
+    politica: {
+      antecedenciaMinimaHoras: naoNegativo(politica.antecedenciaMinimaHoras, CONFIGURACOES_PADRAO.politica.antecedenciaMinimaHoras),
+      maxRemarcacoes: naoNegativo(politica.maxRemarcacoes, CONFIGURACOES_PADRAO.politica.maxRemarcacoes),
+      janelaCancelamentoTardioHoras: naoNegativo(politica.janelaCancelamentoTardioHoras, CONFIGURACOES_PADRAO.politica.janelaCancelamentoTardioHoras),
+    },
+    contato: {
+      whatsapp: whatsapp || CONFIGURACOES_PADRAO.contato.whatsapp,
+      mensagens,
+    },
+  };
+}
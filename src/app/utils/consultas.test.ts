@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { assinarConsulta, buscarConsulta, estaVencida, invalidar, lerConsulta, limparConsultas } from "@/app/utils/consultas";
+
+// O cache é do módulo: cada teste usa chaves próprias
+
+describe("buscarConsulta", () => {
+  it("reaproveita a busca em andamento da mesma chave", async () => {
+    let chamadas = 0;
+    const buscar = async () => ++chamadas;
+    const [a, b] = await Promise.all([buscarConsulta("dedup", buscar), buscarConsulta("dedup", buscar)]);
+    expect([a, b, chamadas]).toEqual([1, 1, 1]);
+    expect(lerConsulta("dedup")).toMatchObject({ dados: 1, buscando: false });
+    expect(estaVencida("dedup")).toBe(false);
+  });
+
+  it("guarda o erro sem apagar os dados anteriores", async () => {
+    await buscarConsulta("erro", async () => "antigo");
+    const falha = new Error("fora do ar");
+    await expect(buscarConsulta("erro", async () => { throw falha; })).rejects.toBe(falha);
+    expect(lerConsulta("erro")).toMatchObject({ dados: "antigo", erro: falha, buscando: false });
+  });
+});
+
+describe("invalidar", () => {
+  it("vence as chaves do prefixo e só elas", async () => {
+    await buscarConsulta("pedidos", async () => []);
+    await buscarConsulta("pedidos?usuario_id=1", async () => []);
+    await buscarConsulta("pedidosantigos", async () => []);
+    invalidar("pedidos");
+    expect(estaVencida("pedidos")).toBe(true);
+    expect(estaVencida("pedidos?usuario_id=1")).toBe(true);
+    expect(estaVencida("pedidosantigos")).toBe(false);
+  });
+
+  it("busca de novo na hora as chaves que estão na tela", async () => {
+    let versao = 0;
+    const buscar = async () => ++versao;
+    await buscarConsulta("na-tela", buscar);
+    await buscarConsulta("fora-da-tela", buscar);
+    const cancelar = assinarConsulta("na-tela", () => {});
+    invalidar("na-tela", "fora-da-tela");
+    await buscarConsulta("na-tela", buscar); // devolve a busca que o invalidar começou
+    expect(lerConsulta("na-tela").dados).toBe(3);
+    expect(lerConsulta("fora-da-tela").dados).toBe(2);
+    cancelar();
+  });
+});
+
+describe("limparConsultas", () => {
+  it("apaga os dados já lidos", async () => {
+    await buscarConsulta("limpar-dados", async () => ["da sessão anterior"]);
+    limparConsultas();
+    expect(lerConsulta("limpar-dados")).toEqual({ dados: undefined, erro: undefined, buscando: false, atualizadoEm: 0 });
+  });
+
+  it("descarta a resposta de uma busca que começou antes", async () => {
+    let responder!: (dados: string[]) => void;
+    const busca = buscarConsulta("limpar-em-andamento", () => new Promise<string[]>((r) => { responder = r; }));
+    limparConsultas();
+    responder(["da sessão anterior"]);
+    await busca;
+    expect(lerConsulta("limpar-em-andamento").dados).toBeUndefined();
+  });
+});
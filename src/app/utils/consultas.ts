@@ -0,0 +1,130 @@
+/**
+ * Cache das leituras do backend, por chave. Cada tela pede os dados pelo hook
+ * (`useConsulta` e os hooks de cada recurso); telas que pedem a mesma chave
+ * compartilham a resposta e a requisição em andamento.
+ *
+ * Stale-while-revalidate: dado vencido continua na tela enquanto a nova busca roda.
+ * As funções de escrita do `api.ts` chamam `invalidar` com o prefixo do recurso
+ * (ex.: 'agendamentos'), e as chaves assinadas são buscadas de novo na hora.
+ */
+
+export const CHAVES = {
+  agendamentos: (filtros: { usuario_id?: string } = {}) =>
+    filtros.usuario_id ? `agendamentos?usuario_id=${filtros.usuario_id}` : 'agendamentos',
+  ocupados: (data: string, servico: string) => `ocupados?data=${data}&servico=${servico}`,
+  servicos: 'servicos',
+  barbeiros: 'barbeiros',
+  feriados: 'feriados',
+  configuracoes: 'configuracoes',
+};
+
+// Por quanto tempo uma resposta é considerada fresca (sem buscar de novo ao montar a tela)
+export const FRESCO_MS = 30_000;
+
+export interface EstadoConsulta<T> {
+  dados?: T;
+  erro?: unknown; // só da última busca; dados antigos continuam valendo
+  buscando: boolean;
+  atualizadoEm: number; // 0 = nunca buscado ou invalidado
+}
+
+interface Entrada {
+  estado: EstadoConsulta<unknown>; // substituído a cada mudança (snapshot do useSyncExternalStore)
+  buscar?: () => Promise<unknown>; // última função usada, para buscar de novo ao invalidar
+  promessa?: Promise<unknown>;
+}
+
+const VAZIO: EstadoConsulta<never> = { buscando: false, atualizadoEm: 0 };
+
+const entradas = new Map<string, Entrada>();
+const ouvintes = new Map<string, Set<() => void>>();
+let geracao = 0; // muda a cada `limparConsultas`; respostas de gerações antigas são descartadas
+
+function atualizar(chave: string, mudanca: Partial<EstadoConsulta<unknown>>) {
+  const entrada = entradas.get(chave) ?? { estado: VAZIO };
+  entrada.estado = { ...entrada.estado, ...mudanca };
+  entradas.set(chave, entrada);
+  ouvintes.get(chave)?.forEach((ouvinte) => ouvinte());
+}
+
+export function lerConsulta<T>(chave: string): EstadoConsulta<T> {
+  return (entradas.get(chave)?.estado ?? VAZIO) as EstadoConsulta<T>;
+}
+
+export function estaVencida(chave: string, frescoMs = FRESCO_MS): boolean {
+  return Date.now() - lerConsulta(chave).atualizadoEm > frescoMs;
+}
+
+/**
+ * Busca (ou reaproveita) os dados de uma chave. Uma chave nunca tem duas buscas ao mesmo
+ * tempo: quem chega durante a busca recebe a mesma promessa.
+ */
+export function buscarConsulta<T>(chave: string, buscar: () => Promise<T>): Promise<T> {
+  const existente = entradas.get(chave);
+  if (existente?.promessa) return existente.promessa as Promise<T>;
+
+  const minha = geracao;
+  const promessa = buscar().then(
+    (dados) => {
+      if (minha !== geracao) return dados; // a sessão mudou: não grava no cache
+      entradas.get(chave)!.promessa = undefined;
+      atualizar(chave, { dados, erro: undefined, buscando: false, atualizadoEm: Date.now() });
+      return dados;
+    },
+    (erro) => {
+      if (minha !== geracao) throw erro;
+      entradas.get(chave)!.promessa = undefined;
+      atualizar(chave, { erro, buscando: false });
+      throw erro;
+    }
+  );
+  atualizar(chave, { buscando: true });
+  const entrada = entradas.get(chave)!;
+  entrada.buscar = buscar;
+  entrada.promessa = promessa;
+  return promessa;
+}
+
+// Assinatura no formato do useSyncExternalStore; devolve a função que cancela
+export function assinarConsulta(chave: string, ouvinte: () => void): () => void {
+  const lista = ouvintes.get(chave) ?? new Set();
+  lista.add(ouvinte);
+  ouvintes.set(chave, lista);
+  return () => {
+    lista.delete(ouvinte);
+    if (lista.size === 0) ouvintes.delete(chave);
+  };
+}
+
+/**
+ * Marca como vencidas as chaves que começam com algum dos prefixos e busca de novo as
+ * que estão na tela. As demais são buscadas quando alguém voltar a pedir.
+ */
+export function invalidar(...prefixos: string[]) {
+  for (const [chave, entrada] of entradas) {
+    if (!prefixos.some((p) => chave === p || chave.startsWith(`${p}?`))) continue;
+    atualizar(chave, { atualizadoEm: 0 });
+    const buscar = entrada.buscar;
+    if (!ouvintes.has(chave) || !buscar) continue;
+    // O erro fica no estado da consulta
+    const refazer = () => buscarConsulta(chave, buscar).catch(() => undefined);
+    // Busca em andamento pode ter saído antes da escrita: espera ela e busca de novo
+    if (entrada.promessa) entrada.promessa.then(refazer, refazer);
+    else refazer();
+  }
+}
+
+/**
+ * Esquece tudo o que foi lido (logout ou troca de usuário): nenhuma tela pode mostrar
+ * dados da sessão anterior. Buscas em andamento são descartadas ao chegar, e as chaves
+ * na tela são buscadas de novo já com a sessão nova.
+ */
+export function limparConsultas() {
+  geracao++;
+  for (const [chave, entrada] of entradas) {
+    entrada.promessa = undefined;
+    atualizar(chave, { dados: undefined, erro: undefined, buscando: false, atualizadoEm: 0 });
+    const buscar = entrada.buscar;
+    if (ouvintes.has(chave) && buscar) buscarConsulta(chave, buscar).catch(() => undefined);
+  }
+}
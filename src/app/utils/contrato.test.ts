@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { ErroDeContrato, lerAgendamento, lerBarbeiro, lerFeriado, lerServico } from "@/app/utils/contrato";
+
+const ROTA = '/teste';
+
+describe("lerAgendamento", () => {
+  const base = { _id: 'a1', data: '2025-03-15', horario: '10:00', servico: 's1' };
+
+  it("lê o histórico registro a registro", () => {
+    const ag = lerAgendamento({
+      ...base,
+      historico: [{ acao: 'remarcacao', por: 'cliente', em: '2025-03-10T12:00:00.000Z', de: { data: '2025-03-14', horario: '09:00' } }],
+    }, ROTA, 'agendamento');
+    expect(ag.historico).toEqual([
+      { acao: 'remarcacao', por: 'cliente', em: '2025-03-10T12:00:00.000Z', de: { data: '2025-03-14', horario: '09:00' } },
+    ]);
+  });
+
+  it("recusa registros do histórico fora do formato", () => {
+    expect(() => lerAgendamento({ ...base, historico: [{ acao: 'apagar', por: 'admin', em: '2025-03-10' }] }, ROTA, 'agendamento')).toThrow(ErroDeContrato);
+    expect(() => lerAgendamento({ ...base, historico: [{ acao: 'status', por: 'admin', em: 'ontem' }] }, ROTA, 'agendamento')).toThrow(ErroDeContrato);
+    expect(() => lerAgendamento({ ...base, historico: [{ acao: 'status', por: 'admin', em: '2025-03-10', status: 'toString' }] }, ROTA, 'agendamento')).toThrow(ErroDeContrato);
+    expect(() => lerAgendamento({ ...base, historico: 'nenhum' }, ROTA, 'agendamento')).toThrow(ErroDeContrato);
+  });
+});
+
+describe("lerServico", () => {
+  it("exige uma duração em minutos", () => {
+    expect(lerServico({ _id: 's1', nome: 'Corte', preco: 35, duracao: '45' }, ROTA, 'servico').duracao).toBe(45);
+    expect(() => lerServico({ _id: 's1', nome: 'Corte', preco: 35 }, ROTA, 'servico')).toThrow(ErroDeContrato);
+    expect(() => lerServico({ _id: 's1', nome: 'Corte', preco: 35, duracao: 'meia hora' }, ROTA, 'servico')).toThrow(ErroDeContrato);
+  });
+
+  it("recusa descrição que não é texto", () => {
+    expect(() => lerServico({ _id: 's1', nome: 'Corte', preco: 35, duracao: 30, descricao: { html: '<b>' } }, ROTA, 'servico')).toThrow(ErroDeContrato);
+  });
+});
+
+describe("lerBarbeiro", () => {
+  it("recusa foto e bio que não são texto", () => {
+    expect(() => lerBarbeiro({ _id: 'b1', nome: 'Lopes', foto: 42 }, ROTA, 'barbeiro')).toThrow(ErroDeContrato);
+    expect(() => lerBarbeiro({ _id: 'b1', nome: 'Lopes', bio: ['a'] }, ROTA, 'barbeiro')).toThrow(ErroDeContrato);
+  });
+});
+
+describe("lerFeriado", () => {
+  const base = { _id: 'f1', data: '2025-03-15', nome: 'Aniversário da cidade', fechado: false };
+
+  it("lê as faixas de horário reduzido", () => {
+    expect(lerFeriado({ ...base, faixas: [{ inicio: '09:00', fim: '13:00:00' }] }, ROTA, 'feriado').faixas).toEqual([{ inicio: '09:00', fim: '13:00' }]);
+  });
+
+  it("recusa faixas fora do formato ou invertidas", () => {
+    expect(() => lerFeriado({ ...base, faixas: [{ inicio: '9h', fim: '13:00' }] }, ROTA, 'feriado')).toThrow(ErroDeContrato);
+    expect(() => lerFeriado({ ...base, faixas: [{ inicio: '13:00', fim: '09:00' }] }, ROTA, 'feriado')).toThrow(ErroDeContrato);
+    expect(() => lerFeriado({ ...base, faixas: {} }, ROTA, 'feriado')).toThrow(ErroDeContrato);
+  });
+});
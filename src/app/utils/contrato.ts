@@ -0,0 +1,408 @@
+import type { AgendamentoData, Barbeiro, CadastroData, Configuracoes, FaixaHorario, Feriado, LoginData, Papel, RegistroAlteracao, Servico, User } from "@/app/types/index";
+import { normalizarConfiguracoes } from "@/app/utils/configuracoes";
+import { estaCancelado } from "@/app/utils/agenda";
+import { isStatusAgendamento } from "@/app/utils/status";
+import { isPapel } from "@/app/utils/permissoes";
+import { parseData } from "@/app/utils/datas";
+import { ApiError, erroDaRecusa } from "@/app/utils/erros";
+import { criarLogger } from "@/app/utils/log";
+
+const log = criarLogger('contrato');
+
+/**
+ * Contrato com o backend: o formato de cada requisição e a leitura de cada resposta.
+ * Toda resposta passa por aqui antes de chegar aos componentes. É o único lugar que
+ * conhece os nomes alternativos do backend (`_id`, `hora`, `user`...) e, se o formato
+ * mudar, a falha aparece aqui como `ErroDeContrato`, e não como `undefined` numa tela.
+ */
+
+export class ErroDeContrato extends ApiError {
+  constructor(public rota: string, public caminho: string, public recebido: unknown) {
+    super('contrato');
+    this.name = 'ErroDeContrato';
+    log.error(`Resposta fora do contrato em ${rota} (${caminho}):`, recebido);
+  }
+}
+
+// ---------- Requisições (formato do backend) ----------
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface CadastroRequest {
+  nome_completo: string;
+  username: string;
+  email: string;
+  password: string;
+  tel?: string;
+}
+
+export interface VerificarCodigoRequest {
+  email: string;
+  codigo: string;
+}
+
+export interface GoogleCallbackRequest {
+  code: string;
+  state: string;
+  redirect_uri: string;
+  redirectUri: string; // alguns backends esperam camelCase
+}
+
+export interface AtualizarTelefoneRequest {
+  telefone: string;
+}
+
+export type CriarAdminRequest = Required<CadastroRequest>;
+
+// Agendamento como o backend grava: o id vai na rota, não no corpo
+export type AgendamentoRequest = Omit<Partial<AgendamentoData>, 'id'>;
+
+// ---------- Respostas ----------
+
+export interface Sessao {
+  token: string;
+  usuario: User;
+  novoUsuario: boolean; // primeiro acesso pelo Google: ainda sem telefone
+}
+
+export interface RespostaCadastro {
+  codigoDev?: string; // o backend devolve o código quando roda em modo de desenvolvimento
+  message?: string;
+}
+
+export interface RespostaSimples {
+  success: boolean;
+  message?: string;
+}
+
+export interface GoogleConfig {
+  clientId: string; // vazio quando o backend não tem o Google configurado
+}
+
+// Horário ocupado na agenda pública: "HH:mm" solto ou o agendamento (sem dados do cliente)
+export type HorarioOcupado = Partial<AgendamentoData> | string;
+
+// ---------- Leitura ----------
+
+type Bruto = Record<string, unknown>;
+type Leitor<T> = (raw: unknown, rota: string, caminho: string) => T;
+
+const ehObjeto = (v: unknown): v is Bruto => !!v && typeof v === 'object' && !Array.isArray(v);
+
+function objeto(v: unknown, rota: string, caminho: string): Bruto {
+  if (!ehObjeto(v)) throw new ErroDeContrato(rota, caminho, v);
+  return v;
+}
+
+function texto(v: unknown, rota: string, caminho: string): string {
+  if (typeof v === 'number') return String(v);
+  if (typeof v !== 'string' || !v) throw new ErroDeContrato(rota, caminho, v);
+  return v;
+}
+
+// Texto que pode faltar (null, undefined ou ""); qualquer outro tipo é erro de contrato
+function textoOpcional(v: unknown, rota: string, caminho: string): string | undefined {
+  if (v == null || v === '') return undefined;
+  if (typeof v !== 'string') throw new ErroDeContrato(rota, caminho, v);
+  return v;
+}
+
+// Ids e telefones chegam como texto ou número
+const opcional = (v: unknown) => (typeof v === 'string' || typeof v === 'number') && v !== '' ? String(v) : undefined;
+
+const ehHorario = (v: unknown): v is string => typeof v === 'string' && /^\d{2}:\d{2}/.test(v);
+
+// O backend manda o id com nomes diferentes conforme a rota
+function idDe(o: Bruto): string | undefined {
+  const id = o.id ?? o._id ?? o.agendamento_id ?? o.id_agendamento ?? o.codigo;
+  return id != null && id !== '' ? String(id) : undefined;
+}
+
+// "14:30" ou "14:30:00" -> "14:30"
+function horarioDe(o: Bruto): string | undefined {
+  const h = o.horario ?? o.hora;
+  return ehHorario(h) ? h.slice(0, 5) : undefined;
+}
+
+/**
+ * Tira o envelope `{ success, data }` (ou `{ success, <chave> }`) da resposta.
+ * `success: false` é uma recusa do backend, não um erro de contrato: vira um ErroDeValidacao com a mensagem dele.
+ */
+function desembrulhar(resposta: unknown, rota: string, chave?: string): unknown {
+  if (Array.isArray(resposta)) return resposta;
+  const r = objeto(resposta, rota, '$');
+  if (r.success === false) throw erroDaRecusa(r, 'O servidor recusou a operação.');
+  if (chave && r[chave] !== undefined) return r[chave];
+  return r.data !== undefined ? r.data : r;
+}
+
+function lerListaDe<T>(v: unknown, rota: string, caminho: string, leitor: Leitor<T>): T[] {
+  if (!Array.isArray(v)) throw new ErroDeContrato(rota, caminho, v);
+  return v.map((item, i) => leitor(item, rota, `${caminho}[${i}]`));
+}
+
+export function lerLista<T>(resposta: unknown, rota: string, chave: string, leitor: Leitor<T>): T[] {
+  return lerListaDe(desembrulhar(resposta, rota, chave), rota, chave, leitor);
+}
+
+export function lerItem<T>(resposta: unknown, rota: string, chave: string, leitor: Leitor<T>): T {
+  return leitor(desembrulhar(resposta, rota, chave), rota, chave);
+}
+
+export function lerRespostaSimples(resposta: unknown, rota: string): RespostaSimples {
+  const r = objeto(resposta ?? {}, rota, '$');
+  return { success: r.success !== false, message: typeof r.message === 'string' ? r.message : undefined };
+}
+
+const ACOES_HISTORICO: RegistroAlteracao['acao'][] = ['cancelamento', 'remarcacao', 'status'];
+
+// Um registro do histórico; o que vem com ação, autor ou data desconhecidos não é usado
+const lerRegistroAlteracao: Leitor<RegistroAlteracao> = (raw, rota, caminho) => {
+  const o = objeto(raw, rota, caminho);
+  const acao = ACOES_HISTORICO.find((a) => a === o.acao);
+  if (!acao) throw new ErroDeContrato(rota, `${caminho}.acao`, o.acao);
+  if (o.por !== 'cliente' && o.por !== 'admin') throw new ErroDeContrato(rota, `${caminho}.por`, o.por);
+  const em = texto(o.em, rota, `${caminho}.em`);
+  if (Number.isNaN(Date.parse(em))) throw new ErroDeContrato(rota, `${caminho}.em`, em);
+  if (o.status != null && !isStatusAgendamento(o.status)) throw new ErroDeContrato(rota, `${caminho}.status`, o.status);
+  if (o.tardio != null && typeof o.tardio !== 'boolean') throw new ErroDeContrato(rota, `${caminho}.tardio`, o.tardio);
+  let de: RegistroAlteracao['de'];
+  if (o.de != null) {
+    const anterior = objeto(o.de, rota, `${caminho}.de`);
+    const data = parseData(typeof anterior.data === 'string' ? anterior.data : undefined);
+    if (!data) throw new ErroDeContrato(rota, `${caminho}.de.data`, anterior.data);
+    const horario = horarioDe(anterior);
+    if (!horario) throw new ErroDeContrato(rota, `${caminho}.de.horario`, anterior.horario);
+    de = { data, horario };
+  }
+  return {
+    acao,
+    por: o.por,
+    usuario_id: opcional(o.usuario_id),
+    nome: textoOpcional(o.nome, rota, `${caminho}.nome`),
+    motivo: textoOpcional(o.motivo, rota, `${caminho}.motivo`),
+    em,
+    tardio: o.tardio ?? undefined,
+    de,
+    status: o.status ?? undefined,
+  };
+};
+
+// Campos do agendamento além de data e horário, com os nomes do domínio
+function camposDoAgendamento(o: Bruto, rota: string, caminho: string): Omit<AgendamentoData, 'data' | 'horario'> {
+  return {
+    id: idDe(o),
+    codigo: opcional(o.codigo),
+    nome: String(o.nome ?? ''),
+    telefone: String(o.telefone ?? o.tel ?? ''),
+    servico: String(o.servico ?? ''),
+    duracao: Number(o.duracao) > 0 ? Number(o.duracao) : undefined,
+    barbeiro: opcional(o.barbeiro),
+    usuario_id: opcional(o.usuario_id),
+    status: isStatusAgendamento(o.status) ? o.status : undefined,
+    historico: o.historico == null ? undefined : lerListaDe(o.historico, rota, `${caminho}.historico`, lerRegistroAlteracao),
+  };
+}
+
+/**
+ * Agendamentos anteriores ao controle de status contam como confirmados.
+ * Sem data ou horário válidos o registro não serve para a agenda: falha aqui.
+ */
+export const lerAgendamento: Leitor<AgendamentoData> = (raw, rota, caminho) => {
+  const o = objeto(raw, rota, caminho);
+  const data = parseData(typeof o.data === 'string' ? o.data : undefined);
+  const horario = horarioDe(o);
+  if (!data) throw new ErroDeContrato(rota, `${caminho}.data`, o.data);
+  if (!horario) throw new ErroDeContrato(rota, `${caminho}.horario`, o.horario ?? o.hora);
+  const ag: AgendamentoData = { ...camposDoAgendamento(o, rota, caminho), data, horario };
+  return { ...ag, status: ag.status ?? (estaCancelado(ag) ? 'cancelado' : 'confirmado') };
+};
+
+export function agendamentoParaBackend(ag: Partial<AgendamentoData>): AgendamentoRequest {
+  const { id, ...campos } = ag;
+  return campos;
+}
+
+// Criação/edição: o backend pode devolver só parte do registro; completa com o que foi enviado
+export function lerAgendamentoSalvo(resposta: unknown, rota: string, enviado: Partial<AgendamentoData>): AgendamentoData {
+  const r = objeto(resposta ?? {}, rota, '$');
+  if (r.success === false) throw erroDaRecusa(r, 'Não foi possível salvar o agendamento.');
+  const salvo = r.agendamento ?? r.data ?? {};
+  return lerAgendamento({ ...enviado, ...objeto(salvo, rota, 'agendamento') }, rota, 'agendamento');
+}
+
+export const lerHorarioOcupado: Leitor<HorarioOcupado> = (raw, rota, caminho) => {
+  if (typeof raw === 'string') {
+    if (!ehHorario(raw)) throw new ErroDeContrato(rota, caminho, raw);
+    return raw.slice(0, 5);
+  }
+  const o = objeto(raw, rota, caminho);
+  const horario = horarioDe(o);
+  if (!horario) throw new ErroDeContrato(rota, `${caminho}.horario`, o.horario ?? o.hora);
+  return { ...camposDoAgendamento(o, rota, caminho), horario };
+};
+
+// Aceita preço numérico ou em texto ("R$ 35,00" / "35.00")
+function parsePreco(v: unknown): number {
+  if (typeof v === 'number') return v;
+  const s = String(v ?? '').replace(/[^\d,.]/g, '');
+  // formato brasileiro: "1.234,50"
+  const n = s.includes(',') ? Number(s.replace(/\./g, '').replace(',', '.')) : Number(s);
+  return Number.isFinite(n) ? n : 0;
+}
+
+// Duração em minutos: sem ela não há como calcular os horários livres, então não vale padrão
+function duracaoDe(v: unknown, rota: string, caminho: string): number {
+  const n = typeof v === 'string' && v.trim() ? Number(v) : v;
+  if (typeof n !== 'number' || !Number.isInteger(n) || n <= 0) throw new ErroDeContrato(rota, caminho, v);
+  return n;
+}
+
+export const lerServico: Leitor<Servico> = (raw, rota, caminho) => {
+  const o = objeto(raw, rota, caminho);
+  return {
+    id: texto(idDe(o), rota, `${caminho}.id`),
+    nome: texto(o.nome, rota, `${caminho}.nome`),
+    preco: parsePreco(o.preco),
+    preco_promocional: o.preco_promocional != null && o.preco_promocional !== ''
+      ? parsePreco(o.preco_promocional)
+      : null,
+    duracao: duracaoDe(o.duracao ?? o.duracao_minutos, rota, `${caminho}.duracao`),
+    descricao: textoOpcional(o.descricao, rota, `${caminho}.descricao`),
+    ativo: o.ativo !== false,
+    ordem: Number(o.ordem) || 0,
+  };
+};
+
+export const lerBarbeiro: Leitor<Barbeiro> = (raw, rota, caminho) => {
+  const o = objeto(raw, rota, caminho);
+  return {
+    id: texto(idDe(o), rota, `${caminho}.id`),
+    nome: texto(o.nome, rota, `${caminho}.nome`),
+    foto: textoOpcional(o.foto, rota, `${caminho}.foto`),
+    bio: textoOpcional(o.bio, rota, `${caminho}.bio`),
+    servicos: Array.isArray(o.servicos) ? o.servicos.map((id, i) => texto(id, rota, `${caminho}.servicos[${i}]`)) : [],
+    ativo: o.ativo !== false,
+    ordem: Number(o.ordem) || 0,
+  };
+};
+
+// Faixa "HH:mm"–"HH:mm" com o fim depois do início
+const lerFaixa: Leitor<FaixaHorario> = (raw, rota, caminho) => {
+  const o = objeto(raw, rota, caminho);
+  if (!ehHorario(o.inicio)) throw new ErroDeContrato(rota, `${caminho}.inicio`, o.inicio);
+  if (!ehHorario(o.fim)) throw new ErroDeContrato(rota, `${caminho}.fim`, o.fim);
+  const inicio = o.inicio.slice(0, 5);
+  const fim = o.fim.slice(0, 5);
+  if (fim <= inicio) throw new ErroDeContrato(rota, caminho, o);
+  return { inicio, fim };
+};
+
+export const lerFeriado: Leitor<Feriado> = (raw, rota, caminho) => {
+  const o = objeto(raw, rota, caminho);
+  const data = parseData(typeof o.data === 'string' ? o.data : undefined);
+  if (!data) throw new ErroDeContrato(rota, `${caminho}.data`, o.data);
+  return {
+    id: idDe(o),
+    data,
+    nome: texto(o.nome, rota, `${caminho}.nome`),
+    tipo: o.tipo === 'nacional' ? 'nacional' : 'municipal',
+    recorrente: o.recorrente === true,
+    fechado: o.fechado !== false,
+    faixas: o.faixas == null ? undefined : lerListaDe(o.faixas, rota, `${caminho}.faixas`, lerFaixa),
+  };
+};
+
+// Configurações ausentes ficam com os valores padrão (ver normalizarConfiguracoes)
+export const lerConfiguracoes: Leitor<Configuracoes> = (raw, rota, caminho) =>
+  normalizarConfiguracoes(objeto(raw ?? {}, rota, caminho));
+
+/**
+ * Papéis do usuário: só nomes exatos (`role`, `roles`, `papel` ou `papeis`), nada de
+ * adivinhar por palavras parecidas. Nunca devolve lista vazia: sem papel reconhecido, é cliente.
+ *
+ * `isAdmin: true` só conta quando não vem papel nenhum. É tudo o que o backend em produção
+ * envia hoje, e lá um admin pode tudo, inclusive criar outros admins (/api/admins);
+ * um papel menor esconderia telas que o backend continua liberando para ele. Por isso vale
+ * como `owner`. Quem decide o acesso é sempre o backend: o painel confere os papéis em
+ * /api/me antes de abrir (admin/layout) e não confia nos que estão no localStorage.
+ */
+function papeisDe(o: Bruto): Papel[] {
+  const declarados = [o.papeis, o.roles, o.papel, o.role].flat().filter(isPapel);
+  if (declarados.length) return [...new Set(declarados)];
+  return o.isAdmin === true ? ['owner'] : ['customer'];
+}
+
+/**
+ * Aceita tanto o formato do backend (`nome_completo`, `tel`) quanto o do domínio,
+ * já que o usuário salvo no navegador pode ser de uma versão anterior do site.
+ */
+export const lerUsuario: Leitor<User> = (raw, rota, caminho) => {
+  const o = objeto(raw, rota, caminho);
+  return {
+    id: texto(idDe(o), rota, `${caminho}.id`),
+    nome: String(o.nome ?? o.nome_completo ?? ''),
+    email: String(o.email ?? ''),
+    telefone: opcional(o.telefone ?? o.tel),
+    username: opcional(o.username),
+    foto: opcional(o.foto),
+    verificado: o.verificado !== false,
+    papeis: papeisDe(o),
+  };
+};
+
+// Usuário guardado no navegador, ou null se não houver (ou não for reconhecível)
+export function usuarioSalvo(json: string | null): User | null {
+  if (!json) return null;
+  try {
+    return lerUsuario(JSON.parse(json), 'localStorage', 'user');
+  } catch {
+    return null;
+  }
+}
+
+export function loginParaBackend(dados: LoginData): LoginRequest {
+  return { username: dados.email, password: dados.password };
+}
+
+// O e-mail também é o nome de usuário
+export function cadastroParaBackend(dados: CadastroData): CadastroRequest {
+  return {
+    nome_completo: dados.nome,
+    username: dados.email,
+    email: dados.email,
+    password: dados.password,
+    tel: dados.telefone,
+  };
+}
+
+// Login por senha ou pelo Google: `{ token, usuario }`, às vezes com `user` ou dentro de `data`
+export function lerSessao(resposta: unknown, rota: string): Sessao {
+  const r = objeto(resposta, rota, '$');
+  if (r.success === false) throw erroDaRecusa(r, 'Não foi possível entrar.', 401);
+  const dados = ehObjeto(r.data) ? r.data : {};
+  const usuario = r.usuario ?? r.user ?? dados.usuario ?? dados.user;
+  const token = r.token ?? dados.token;
+  return {
+    token: texto(token, rota, 'token'),
+    usuario: lerUsuario(usuario, rota, 'usuario'),
+    novoUsuario: r.isNewUser === true || r.is_new_user === true,
+  };
+}
+
+export function lerCadastro(resposta: unknown, rota: string): RespostaCadastro {
+  const r = objeto(resposta ?? {}, rota, '$');
+  if (r.success === false) throw erroDaRecusa(r, 'Não foi possível iniciar o cadastro.');
+  return {
+    codigoDev: r.codigo_dev != null ? String(r.codigo_dev) : undefined,
+    message: typeof r.message === 'string' ? r.message : undefined,
+  };
+}
+
+export function lerGoogleConfig(resposta: unknown, rota: string): GoogleConfig {
+  const r = objeto(desembrulhar(resposta, rota), rota, '$');
+  return { clientId: typeof r.clientId === 'string' ? r.clientId : '' };
+}
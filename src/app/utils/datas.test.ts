@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { diaDaSemana, hojeISO, instanteDe, minutosAte, parseData, somarDias } from "@/app/utils/datas";
+
+// São Paulo está em UTC-3 (sem horário de verão desde 2019): das 21:00 à meia-noite
+// de lá o UTC já está no dia seguinte.
+
+describe("parseData", () => {
+  it("aceita YYYY-MM-DD como está", () => {
+    expect(parseData("2025-03-15")).toBe("2025-03-15");
+  });
+
+  it("converte DD/MM/YYYY", () => {
+    expect(parseData("15/03/2025")).toBe("2025-03-15");
+  });
+
+  it("corta o horário de um ISO sem mudar o dia", () => {
+    expect(parseData("2025-03-15T23:30:00-03:00")).toBe("2025-03-15");
+    expect(parseData("2025-03-15T00:00:00.000Z")).toBe("2025-03-15");
+  });
+
+  it("devolve null para vazio ou formato desconhecido", () => {
+    expect(parseData(undefined)).toBeNull();
+    expect(parseData(null)).toBeNull();
+    expect(parseData("")).toBeNull();
+    expect(parseData("15-03-2025")).toBeNull();
+    expect(parseData("amanhã")).toBeNull();
+  });
+});
+
+describe("hojeISO", () => {
+  it("usa o dia de São Paulo depois das 21:00 de lá (UTC já virou)", () => {
+    expect(hojeISO(new Date("2025-03-16T00:30:00Z"))).toBe("2025-03-15");
+    expect(hojeISO(new Date("2025-03-16T02:59:00Z"))).toBe("2025-03-15");
+  });
+
+  it("vira o dia à meia-noite de São Paulo", () => {
+    expect(hojeISO(new Date("2025-03-16T03:00:00Z"))).toBe("2025-03-16");
+  });
+
+  it("coincide com o UTC no meio do dia", () => {
+    expect(hojeISO(new Date("2025-03-15T21:30:00Z"))).toBe("2025-03-15");
+  });
+
+  it("vira o ano pelo relógio de São Paulo", () => {
+    expect(hojeISO(new Date("2026-01-01T01:00:00Z"))).toBe("2025-12-31");
+  });
+});
+
+describe("instanteDe", () => {
+  it("lê data e horário como relógio de São Paulo", () => {
+    expect(instanteDe("2025-03-15", "09:00").toISOString()).toBe("2025-03-15T12:00:00.000Z");
+  });
+
+  it("meia-noite de São Paulo é 03:00 UTC", () => {
+    expect(instanteDe("2025-03-15").toISOString()).toBe("2025-03-15T03:00:00.000Z");
+  });
+
+  it("horários depois das 21:00 caem no dia seguinte em UTC", () => {
+    expect(instanteDe("2025-03-15", "21:30").toISOString()).toBe("2025-03-16T00:30:00.000Z");
+    expect(instanteDe("2025-03-15", "23:59").toISOString()).toBe("2025-03-16T02:59:00.000Z");
+  });
+
+  it("acerta datas do antigo horário de verão (UTC-2)", () => {
+    expect(instanteDe("2019-01-10", "12:00").toISOString()).toBe("2019-01-10T14:00:00.000Z");
+  });
+});
+
+describe("somarDias", () => {
+  it("soma e subtrai dias", () => {
+    expect(somarDias("2025-03-15", 1)).toBe("2025-03-16");
+    expect(somarDias("2025-03-15", -15)).toBe("2025-02-28");
+    expect(somarDias("2025-03-15", 0)).toBe("2025-03-15");
+  });
+
+  it("passa de mês e de ano", () => {
+    expect(somarDias("2025-01-31", 1)).toBe("2025-02-01");
+    expect(somarDias("2025-12-31", 1)).toBe("2026-01-01");
+    expect(somarDias("2026-01-01", -1)).toBe("2025-12-31");
+  });
+
+  it("considera anos bissextos", () => {
+    expect(somarDias("2024-02-28", 1)).toBe("2024-02-29");
+    expect(somarDias("2025-02-28", 1)).toBe("2025-03-01");
+  });
+});
+
+describe("diaDaSemana", () => {
+  it("devolve 0 para domingo e 6 para sábado", () => {
+    expect(diaDaSemana("2025-03-15")).toBe(6);
+    expect(diaDaSemana("2025-03-16")).toBe(0);
+  });
+
+  it("não depende do fuso: a data é o dia do calendário", () => {
+    expect(diaDaSemana("2024-02-29")).toBe(4);
+    expect(diaDaSemana("2025-12-31")).toBe(3);
+  });
+});
+
+describe("minutosAte", () => {
+  const agora = new Date("2025-03-16T00:00:00Z"); // 15/03, 21:00 em São Paulo
+
+  it("conta a partir do relógio de São Paulo, não do dia UTC", () => {
+    expect(minutosAte("2025-03-15", "21:30", agora)).toBe(30);
+    expect(minutosAte("2025-03-16", "09:00", agora)).toBe(12 * 60);
+  });
+
+  it("fica negativo para horários que já passaram", () => {
+    expect(minutosAte("2025-03-15", "20:00", agora)).toBe(-60);
+  });
+
+  it("atravessa a meia-noite de São Paulo", () => {
+    expect(minutosAte("2025-03-16", "00:15", new Date("2025-03-16T02:45:00Z"))).toBe(30);
+  });
+});
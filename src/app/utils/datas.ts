@@ -0,0 +1,126 @@
+/**
+ * Datas e horários da barbearia. Tudo é relógio de parede de São Paulo:
+ * datas são strings "YYYY-MM-DD" e horários "HH:mm", nunca `new Date("YYYY-MM-DD")`
+ * (que o navegador lê como meia-noite UTC, ou seja, o dia anterior no Brasil).
+ */
+
+export const FUSO_HORARIO = 'America/Sao_Paulo';
+
+// Dois dígitos, para mês, dia, hora e minuto
+export const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatador = new Intl.DateTimeFormat('en-CA', {
+  timeZone: FUSO_HORARIO,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+export function ehDataISO(v: string): boolean {
+  return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+}
+
+// Data e horário de um instante no fuso da barbearia
+export function partesNoFuso(instante: Date): { data: string; horario: string } {
+  const p = Object.fromEntries(formatador.formatToParts(instante).map((x) => [x.type, x.value]));
+  return { data: `${p.year}-${p.month}-${p.day}`, horario: `${p.hour}:${p.minute}` };
+}
+
+export function hojeISO(agora: Date = new Date()): string {
+  return partesNoFuso(agora).data;
+}
+
+export function anoAtual(agora: Date = new Date()): number {
+  return Number(hojeISO(agora).slice(0, 4));
+}
+
+export function agoraNoFuso(agora: Date = new Date()): { data: string; horario: string; minutos: number } {
+  const { data, horario } = partesNoFuso(agora);
+  return { data, horario, minutos: horaParaMinutos(horario) };
+}
+
+/**
+ * Aceita "YYYY-MM-DD", "DD/MM/YYYY" ou um ISO com horário ("YYYY-MM-DDTHH:mm...")
+ * e devolve "YYYY-MM-DD", ou null se não reconhecer.
+ */
+export function parseData(v?: string | null): string | null {
+  if (!v) return null;
+  if (ehDataISO(v)) return v;
+  const br = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(v);
+  if (br) return `${br[3]}-${br[2]}-${br[1]}`;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(v)) return v.slice(0, 10);
+  return null;
+}
+
+// "2025-03-15" -> "15/03/2025"
+export function formatarData(dataISO: string): string {
+  return ehDataISO(dataISO) ? dataISO.split('-').reverse().join('/') : dataISO;
+}
+
+// Instante (ex.: registro do histórico) como "15/03/2025 14:30" no fuso da barbearia
+export function formatarDataHora(instante: Date | string): string {
+  const d = typeof instante === 'string' ? new Date(instante) : instante;
+  if (Number.isNaN(d.getTime())) return '';
+  const { data, horario } = partesNoFuso(d);
+  return `${formatarData(data)} ${horario}`;
+}
+
+// Dia da semana (0 = domingo) de uma data "YYYY-MM-DD", sem depender do fuso do navegador
+export function diaDaSemana(dataISO: string): number {
+  const [y, m, d] = dataISO.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+export function somarDias(dataISO: string, dias: number): string {
+  const [y, m, d] = dataISO.split('-').map(Number);
+  const r = new Date(Date.UTC(y, m - 1, d + dias));
+  return `${r.getUTCFullYear()}-${pad(r.getUTCMonth() + 1)}-${pad(r.getUTCDate())}`;
+}
+
+export function horaParaMinutos(hora: string): number {
+  const m = /^(\d{1,2}):(\d{2})/.exec(hora || '');
+  if (!m) return NaN;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+export function minutosParaHora(minutos: number): string {
+  return `${pad(Math.floor(minutos / 60))}:${pad(minutos % 60)}`;
+}
+
+// Diferença, em minutos, entre o relógio de São Paulo e o UTC naquele instante
+function deslocamentoMinutos(instante: Date): number {
+  const t = Math.floor(instante.getTime() / 60_000) * 60_000;
+  const { data, horario } = partesNoFuso(new Date(t));
+  const [y, m, d] = data.split('-').map(Number);
+  const [hh, mm] = horario.split(':').map(Number);
+  return (Date.UTC(y, m - 1, d, hh, mm) - t) / 60_000;
+}
+
+/**
+ * Instante absoluto de uma data + horário de São Paulo (para comparar com "agora").
+ * Recalcula o deslocamento uma vez para acertar datas de troca de horário de verão.
+ */
+export function instanteDe(dataISO: string, horario = '00:00'): Date {
+  const [y, m, d] = dataISO.split('-').map(Number);
+  const [hh, mm] = horario.split(':').map(Number);
+  const relogio = Date.UTC(y, m - 1, d, hh || 0, mm || 0);
+  let t = relogio - deslocamentoMinutos(new Date(relogio)) * 60_000;
+  const ajuste = deslocamentoMinutos(new Date(t));
+  t = relogio - ajuste * 60_000;
+  return new Date(t);
+}
+
+export function minutosAte(dataISO: string, horario: string, agora: Date = new Date()): number {
+  return (instanteDe(dataISO, horario).getTime() - agora.getTime()) / 60_000;
+}
+
+// Ordena por data e horário ("YYYY-MM-DD" + "HH:mm" comparam bem como texto)
+export function compararDataHora(
+  a: { data: string; horario?: string },
+  b: { data: string; horario?: string }
+): number {
+  return `${a.data}T${a.horario || '00:00'}`.localeCompare(`${b.data}T${b.horario || '00:00'}`);
+}
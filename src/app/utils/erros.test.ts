@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  ehErroApi,
+  erroDaRecusa,
+  erroDaResposta,
+  ErroDeConflito,
+  ErroDeRede,
+  ErroDeTempoEsgotado,
+  ErroDeValidacao,
+  ErroDoServidor,
+  ErroNaoAutenticado,
+  ErroNaoEncontrado,
+  ErroSemPermissao,
+  MENSAGENS_ERRO,
+  mensagemDeErro,
+} from "@/app/utils/erros";
+
+describe("mensagemDeErro", () => {
+  it("mostra a mensagem dos erros da API", () => {
+    expect(mensagemDeErro(new ErroDeConflito("Horário ocupado."), "padrão")).toBe("Horário ocupado.");
+    expect(mensagemDeErro(new ErroDeRede(), "padrão")).toMatch(/conectar com o servidor/);
+  });
+
+  it("nunca mostra mensagens internas de outros erros", () => {
+    expect(mensagemDeErro(new TypeError("Failed to fetch"), "padrão")).toBe("padrão");
+    expect(mensagemDeErro(new SyntaxError("Unexpected token < in JSON"), "padrão")).toBe("padrão");
+    expect(mensagemDeErro("texto solto", "padrão")).toBe("padrão");
+    expect(mensagemDeErro(undefined, "padrão")).toBe("padrão");
+  });
+});
+
+describe("erroDaResposta", () => {
+  it("escolhe o tipo de erro pelo status", () => {
+    expect(erroDaResposta(401, null)).toBeInstanceOf(ErroNaoAutenticado);
+    expect(erroDaResposta(403, null)).toBeInstanceOf(ErroSemPermissao);
+    expect(erroDaResposta(404, null)).toBeInstanceOf(ErroNaoEncontrado);
+    expect(erroDaResposta(405, null)).toBeInstanceOf(ErroNaoEncontrado);
+    expect(erroDaResposta(408, null)).toBeInstanceOf(ErroDeTempoEsgotado);
+    expect(erroDaResposta(409, null)).toBeInstanceOf(ErroDeConflito);
+    expect(erroDaResposta(400, null)).toBeInstanceOf(ErroDeValidacao);
+    expect(erroDaResposta(422, null)).toBeInstanceOf(ErroDeValidacao);
+    expect(erroDaResposta(503, null)).toBeInstanceOf(ErroDoServidor);
+    expect(erroDaResposta(418, null)).toBeInstanceOf(ErroDoServidor);
+  });
+
+  it("guarda o status e usa a mensagem padrão sem corpo", () => {
+    const erro = erroDaResposta(503, "<html>Bad Gateway</html>");
+    expect(erro.status).toBe(503);
+    expect(erro.message).toBe(MENSAGENS_ERRO.servidor);
+  });
+
+  it("usa a mensagem do backend onde ela explica melhor", () => {
+    expect(erroDaResposta(409, { message: "Horário ocupado." }).message).toBe("Horário ocupado.");
+    expect(erroDaResposta(401, { error: "Senha incorreta." }).message).toBe("Senha incorreta.");
+    expect(erroDaResposta(500, { message: "stack trace" }).message).toBe(MENSAGENS_ERRO.servidor);
+  });
+
+  it("lê os detalhes por campo nos formatos mais comuns", () => {
+    expect(erroDaResposta(422, { erros: [{ campo: "email", mensagem: "E-mail inválido." }] }).campos).toEqual({ email: "E-mail inválido." });
+    expect(erroDaResposta(400, { errors: [{ path: "telefone", msg: "Obrigatório." }] }).campos).toEqual({ telefone: "Obrigatório." });
+    expect(erroDaResposta(400, { errors: { nome: "Muito curto.", idade: 3 } }).campos).toEqual({ nome: "Muito curto." });
+  });
+});
+
+describe("erroDaRecusa", () => {
+  it("trata `success: false` como o status equivalente", () => {
+    const recusa = erroDaRecusa({ success: false }, "Não foi possível agendar.");
+    expect(recusa).toBeInstanceOf(ErroDeValidacao);
+    expect(recusa.message).toBe("Não foi possível agendar.");
+    expect(erroDaRecusa({ success: false, message: "Senha incorreta." }, "padrão", 401)).toBeInstanceOf(ErroNaoAutenticado);
+  });
+});
+
+describe("ehErroApi", () => {
+  it("confere o tipo sem olhar a mensagem", () => {
+    expect(ehErroApi(new ErroDeConflito("qualquer texto"), "conflito")).toBe(true);
+    expect(ehErroApi(new ErroDeRede(), "conflito", "validacao")).toBe(false);
+    expect(ehErroApi(new ErroDeRede())).toBe(true);
+    expect(ehErroApi(new Error("rede"))).toBe(false);
+  });
+});
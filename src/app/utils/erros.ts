@@ -0,0 +1,162 @@
+/**
+ * Erros das chamadas ao backend. Cada tipo tem uma mensagem em português pronta
+ * para o usuário (`message`); os componentes decidem o que fazer pelo tipo,
+ * nunca pelo texto da mensagem.
+ */
+
+export type TipoErroApi =
+  | 'rede' // sem conexão ou servidor fora do ar
+  | 'tempo_esgotado'
+  | 'nao_autenticado' // 401: sessão ausente/expirada ou credenciais inválidas
+  | 'sem_permissao' // 403
+  | 'nao_encontrado' // 404/405: rota ou registro inexistente
+  | 'conflito' // 409: ex.: o horário acabou de ser ocupado
+  | 'validacao' // 400/422: dados recusados, com detalhes por campo quando o backend informa
+  | 'servidor' // 5xx e demais respostas inesperadas
+  | 'contrato'; // resposta 2xx fora do formato esperado (ver utils/contrato)
+
+export const MENSAGENS_ERRO: Record<TipoErroApi, string> = {
+  rede: 'Não foi possível conectar com o servidor. Verifique sua internet e tente novamente.',
+  tempo_esgotado: 'O servidor demorou demais para responder. Tente novamente.',
+  nao_autenticado: 'Sua sessão expirou. Faça login novamente.',
+  sem_permissao: 'Você não tem permissão para fazer isso.',
+  nao_encontrado: 'Não encontramos o que você procurava.',
+  conflito: 'Este horário acabou de ser ocupado. Escolha outro.',
+  validacao: 'Alguns dados não foram aceitos. Confira e tente novamente.',
+  servidor: 'O servidor encontrou um problema. Tente novamente em instantes.',
+  contrato: 'O servidor respondeu em um formato inesperado. Tente novamente em instantes.',
+};
+
+export class ApiError extends Error {
+  readonly campos: Record<string, string>; // mensagem por campo, nos erros de validação
+
+  constructor(
+    readonly tipo: TipoErroApi,
+    mensagem?: string,
+    readonly status?: number,
+    campos: Record<string, string> = {}
+  ) {
+    super(mensagem || MENSAGENS_ERRO[tipo]);
+    this.name = 'ApiError';
+    this.campos = campos;
+  }
+}
+
+export class ErroDeRede extends ApiError {
+  constructor() {
+    super('rede');
+    this.name = 'ErroDeRede';
+  }
+}
+
+export class ErroDeTempoEsgotado extends ApiError {
+  constructor() {
+    super('tempo_esgotado');
+    this.name = 'ErroDeTempoEsgotado';
+  }
+}
+
+export class ErroNaoAutenticado extends ApiError {
+  constructor(mensagem?: string) {
+    super('nao_autenticado', mensagem, 401);
+    this.name = 'ErroNaoAutenticado';
+  }
+}
+
+export class ErroSemPermissao extends ApiError {
+  constructor(mensagem?: string) {
+    super('sem_permissao', mensagem, 403);
+    this.name = 'ErroSemPermissao';
+  }
+}
+
+export class ErroNaoEncontrado extends ApiError {
+  constructor(status = 404) {
+    super('nao_encontrado', undefined, status);
+    this.name = 'ErroNaoEncontrado';
+  }
+}
+
+export class ErroDeConflito extends ApiError {
+  constructor(mensagem?: string) {
+    super('conflito', mensagem, 409);
+    this.name = 'ErroDeConflito';
+  }
+}
+
+export class ErroDeValidacao extends ApiError {
+  constructor(mensagem?: string, status = 422, campos: Record<string, string> = {}) {
+    super('validacao', mensagem, status, campos);
+    this.name = 'ErroDeValidacao';
+  }
+}
+
+export class ErroDoServidor extends ApiError {
+  constructor(status?: number) {
+    super('servidor', undefined, status);
+    this.name = 'ErroDoServidor';
+  }
+}
+
+/**
+ * Detalhes por campo, nos formatos mais comuns:
+ * `{ erros: [{ campo, mensagem }] }`, `{ errors: [{ field|path|param, message|msg }] }`
+ * ou `{ errors: { campo: mensagem } }`.
+ */
+function camposDoErro(dados: any): Record<string, string> {
+  const lista = dados?.erros ?? dados?.errors ?? dados?.detalhes;
+  const campos: Record<string, string> = {};
+  if (Array.isArray(lista)) {
+    for (const item of lista) {
+      const campo = item?.campo ?? item?.field ?? item?.path ?? item?.param;
+      const mensagem = item?.mensagem ?? item?.message ?? item?.msg;
+      if (campo && mensagem) campos[String(campo)] = String(mensagem);
+    }
+  } else if (lista && typeof lista === 'object') {
+    for (const [campo, mensagem] of Object.entries(lista)) {
+      if (typeof mensagem === 'string') campos[campo] = mensagem;
+    }
+  }
+  return campos;
+}
+
+function mensagemDoBackend(corpo: any): string | undefined {
+  if (typeof corpo?.message === 'string' && corpo.message) return corpo.message;
+  if (typeof corpo?.error === 'string' && corpo.error) return corpo.error;
+  return undefined;
+}
+
+/**
+ * Converte uma resposta HTTP de erro (status + corpo já lido, se houver) no erro do tipo certo.
+ * Nos 401/403/409/400/422 a mensagem do backend costuma explicar melhor que a genérica.
+ */
+export function erroDaResposta(status: number, dados: unknown): ApiError {
+  const corpo = dados as any;
+  const doBackend = mensagemDoBackend(corpo);
+  if (status === 400 || status === 422) return new ErroDeValidacao(doBackend, status, camposDoErro(corpo));
+  if (status === 401) return new ErroNaoAutenticado(doBackend);
+  if (status === 403) return new ErroSemPermissao(doBackend);
+  if (status === 404 || status === 405) return new ErroNaoEncontrado(status);
+  if (status === 408) return new ErroDeTempoEsgotado();
+  if (status === 409) return new ErroDeConflito(doBackend);
+  return new ErroDoServidor(status);
+}
+
+/**
+ * Recusa dentro de uma resposta 2xx (`{ success: false, message }`): vira o mesmo erro que
+ * o backend daria com o status equivalente (422 por padrão; 401 para login recusado).
+ */
+export function erroDaRecusa(dados: unknown, padrao: string, status = 422): ApiError {
+  const corpo = dados as any;
+  return erroDaResposta(status, { ...corpo, message: mensagemDoBackend(corpo) || padrao });
+}
+
+export function ehErroApi(e: unknown, ...tipos: TipoErroApi[]): e is ApiError {
+  return e instanceof ApiError && (tipos.length === 0 || tipos.includes(e.tipo));
+}
+
+// Mensagem para exibir ao usuário a partir de qualquer erro capturado. Só a do ApiError é
+// escrita para o usuário; as demais ("Failed to fetch", erro de JSON...) ficam no `padrao`
+export function mensagemDeErro(e: unknown, padrao: string): string {
+  return e instanceof ApiError ? e.message : padrao;
+}
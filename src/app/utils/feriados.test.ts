@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { Feriado } from "@/app/types/index";
+import { calcularPascoa, feriadoNaData, feriadosDoAno, feriadosNacionais } from "@/app/utils/feriados";
+
+describe("calcularPascoa", () => {
+  it("acerta o domingo de Páscoa de anos conhecidos", () => {
+    expect(calcularPascoa(2000)).toBe("2000-04-23");
+    expect(calcularPascoa(2019)).toBe("2019-04-21");
+    expect(calcularPascoa(2024)).toBe("2024-03-31");
+    expect(calcularPascoa(2025)).toBe("2025-04-20");
+    expect(calcularPascoa(2026)).toBe("2026-04-05");
+  });
+});
+
+describe("feriadosNacionais", () => {
+  const datas = (ano: number) => Object.fromEntries(feriadosNacionais(ano).map((f) => [f.nome, f.data]));
+
+  it("deriva os feriados móveis da Páscoa", () => {
+    expect(datas(2025)).toMatchObject({
+      "Carnaval (segunda-feira)": "2025-03-03",
+      "Carnaval (terça-feira)": "2025-03-04",
+      "Sexta-feira Santa": "2025-04-18",
+      "Corpus Christi": "2025-06-19",
+    });
+  });
+
+  it("inclui a Consciência Negra a partir de 2024", () => {
+    expect(datas(2023)["Consciência Negra"]).toBeUndefined();
+    expect(datas(2024)["Consciência Negra"]).toBe("2024-11-20");
+  });
+
+  it("devolve em ordem de data, todos fechados", () => {
+    const lista = feriadosNacionais(2025);
+    expect(lista.map((f) => f.data)).toEqual([...lista.map((f) => f.data)].sort());
+    expect(lista.every((f) => f.fechado && f.tipo === "nacional")).toBe(true);
+  });
+});
+
+describe("feriadosDoAno", () => {
+  const aniversario: Feriado = { data: "2020-01-25", nome: "Aniversário da cidade", tipo: "municipal", recorrente: true, fechado: true };
+
+  it("repete os municipais recorrentes no ano pedido", () => {
+    expect(feriadosDoAno(2025, [aniversario]).find((f) => f.nome === aniversario.nome)?.data).toBe("2025-01-25");
+  });
+
+  it("cadastro na data de um nacional substitui a regra padrão", () => {
+    const natal: Feriado = { data: "2025-12-25", nome: "Natal", tipo: "nacional", fechado: false, faixas: [{ inicio: "09:00", fim: "12:00" }] };
+    expect(feriadoNaData("2025-12-25", [natal])).toEqual(natal);
+  });
+
+  it("ignora cadastros não recorrentes de outros anos", () => {
+    expect(feriadosDoAno(2025, [{ ...aniversario, recorrente: false }]).some((f) => f.nome === aniversario.nome)).toBe(false);
+  });
+});
+
+describe("feriadoNaData", () => {
+  it("encontra o feriado do dia ou devolve undefined", () => {
+    expect(feriadoNaData("2025-04-21", [])?.nome).toBe("Tiradentes");
+    expect(feriadoNaData("2025-04-22", [])).toBeUndefined();
+    expect(feriadoNaData("21/04/2025", [])).toBeUndefined();
+  });
+});
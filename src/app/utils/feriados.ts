@@ -0,0 +1,69 @@
+import type { Feriado } from "@/app/types/index";
+import { ehDataISO, pad, somarDias } from "@/app/utils/datas";
+
+/**
+ * Domingo de Páscoa do ano (calendário gregoriano), pelo algoritmo de Meeus/Jones/Butcher.
+ */
+export function calcularPascoa(ano: number): string {
+  const a = ano % 19;
+  const b = Math.floor(ano / 100);
+  const c = ano % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const mes = Math.floor((h + l - 7 * m + 114) / 31);
+  const dia = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${ano}-${pad(mes)}-${pad(dia)}`;
+}
+
+/**
+ * Feriados nacionais do ano, fixos e móveis (derivados da Páscoa).
+ * Por padrão a barbearia fecha em todos; o painel pode mudar dia a dia.
+ */
+export function feriadosNacionais(ano: number): Feriado[] {
+  const pascoa = calcularPascoa(ano);
+  const nacional = (data: string, nome: string): Feriado => ({ data, nome, tipo: 'nacional', fechado: true });
+  const lista = [
+    nacional(`${ano}-01-01`, 'Confraternização Universal'),
+    nacional(somarDias(pascoa, -48), 'Carnaval (segunda-feira)'),
+    nacional(somarDias(pascoa, -47), 'Carnaval (terça-feira)'),
+    nacional(somarDias(pascoa, -2), 'Sexta-feira Santa'),
+    nacional(`${ano}-04-21`, 'Tiradentes'),
+    nacional(`${ano}-05-01`, 'Dia do Trabalho'),
+    nacional(somarDias(pascoa, 60), 'Corpus Christi'),
+    nacional(`${ano}-09-07`, 'Independência do Brasil'),
+    nacional(`${ano}-10-12`, 'Nossa Senhora Aparecida'),
+    nacional(`${ano}-11-02`, 'Finados'),
+    nacional(`${ano}-11-15`, 'Proclamação da República'),
+    nacional(`${ano}-12-25`, 'Natal'),
+  ];
+  // Dia Nacional de Zumbi e da Consciência Negra é feriado nacional desde 2024 (Lei 14.759/2023)
+  if (ano >= 2024) lista.push(nacional(`${ano}-11-20`, 'Consciência Negra'));
+  return lista.sort((a, b) => a.data.localeCompare(b.data));
+}
+
+/**
+ * Feriados do ano combinando os nacionais calculados com os cadastrados no painel.
+ * Um cadastro na mesma data de um nacional substitui a regra padrão (ex.: horário reduzido);
+ * municipais recorrentes são repetidos no ano pedido.
+ */
+export function feriadosDoAno(ano: number, cadastrados: Feriado[]): Feriado[] {
+  const porData = new Map<string, Feriado>();
+  for (const f of feriadosNacionais(ano)) porData.set(f.data, f);
+  for (const f of cadastrados) {
+    const data = f.recorrente ? `${ano}${f.data.slice(4)}` : f.data;
+    if (data.startsWith(`${ano}-`)) porData.set(data, { ...f, data });
+  }
+  return Array.from(porData.values()).sort((a, b) => a.data.localeCompare(b.data));
+}
+
+export function feriadoNaData(dataISO: string, cadastrados: Feriado[]): Feriado | undefined {
+  if (!ehDataISO(dataISO)) return undefined;
+  return feriadosDoAno(Number(dataISO.slice(0, 4)), cadastrados).find((f) => f.data === dataISO);
+}
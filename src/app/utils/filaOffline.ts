@@ -0,0 +1,187 @@
+import { criarAgendamento, obterConfiguracoes } from "@/app/utils/api";
+import { ehErroApi, ErroDeValidacao, mensagemDeErro } from "@/app/utils/erros";
+import { sessaoAtual } from "@/app/utils/sessao";
+import { buscarConsulta, CHAVES, lerConsulta } from "@/app/utils/consultas";
+import { CONFIGURACOES_PADRAO } from "@/app/utils/configuracoes";
+import { validarInicio } from "@/app/utils/agenda";
+import type { AgendamentoData, ConfiguracaoAgenda, Configuracoes } from "@/app/types/index";
+
+/**
+ * Fila de agendamentos feitos sem conexão. Muitos clientes agendam pelo 4G: se o
+ * `criarAgendamento` falha por rede, o pedido fica guardado no IndexedDB e é reenviado
+ * quando o navegador volta a ficar online (ver components/AvisoPendentes).
+ * Cada item é do usuário que agendou: só ele vê e reenvia, com o token da própria sessão.
+ */
+
+export type SituacaoPendente =
+  | 'pendente' // aguardando conexão para ser enviado
+  | 'conflito' // o backend recusou no reenvio (409/422): o cliente precisa escolher outro horário
+  | 'erro'; // outra falha no reenvio; o cliente pode tentar de novo ou descartar
+
+export interface AgendamentoPendente {
+  idLocal: string;
+  usuario_id: string; // quem agendou; outro usuário no mesmo aparelho não vê nem reenvia
+  agendamento: Partial<AgendamentoData>;
+  criadoEm: string; // ISO
+  situacao: SituacaoPendente;
+  mensagem?: string; // motivo da recusa, quando houver
+}
+
+export type ResultadoAgendamento =
+  | { enviado: true; agendamento: AgendamentoData }
+  | { enviado: false; pendente: AgendamentoPendente };
+
+const BANCO = 'lopesclub';
+const LOJA = 'agendamentosPendentes';
+
+let banco: Promise<IDBDatabase> | null = null;
+
+function abrirBanco(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB indisponível neste navegador.'));
+  banco ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(BANCO, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(LOJA, { keyPath: 'idLocal' });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      banco = null;
+      reject(req.error);
+    };
+  });
+  return banco;
+}
+
+async function naLoja<T>(modo: IDBTransactionMode, operar: (loja: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await abrirBanco();
+  return new Promise((resolve, reject) => {
+    const req = operar(db.transaction(LOJA, modo).objectStore(LOJA));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// ---------- Aviso às telas ----------
+
+const ouvintes = new Set<() => void>();
+
+// Chamado a cada mudança na fila; devolve a função que cancela
+export function assinarFila(ouvinte: () => void): () => void {
+  ouvintes.add(ouvinte);
+  return () => {
+    ouvintes.delete(ouvinte);
+  };
+}
+
+const avisar = () => ouvintes.forEach((ouvinte) => ouvinte());
+
+// ---------- Operações ----------
+
+const usuarioDaSessao = (): string | null => sessaoAtual().usuario?.id ?? null;
+
+async function listarTodos(): Promise<AgendamentoPendente[]> {
+  try {
+    return await naLoja('readonly', (loja) => loja.getAll() as IDBRequest<AgendamentoPendente[]>);
+  } catch {
+    return []; // sem IndexedDB não há fila
+  }
+}
+
+// Pendentes do usuário logado; os de outras contas ficam guardados até o dono entrar de novo
+export async function listarPendentes(): Promise<AgendamentoPendente[]> {
+  const usuario = usuarioDaSessao();
+  if (!usuario) return [];
+  const itens = await listarTodos();
+  return itens.filter((item) => item.usuario_id === usuario).sort((a, b) => a.criadoEm.localeCompare(b.criadoEm));
+}
+
+async function salvar(item: AgendamentoPendente) {
+  await naLoja('readwrite', (loja) => loja.put(item));
+  avisar();
+}
+
+export async function descartarPendente(idLocal: string) {
+  await naLoja('readwrite', (loja) => loja.delete(idLocal));
+  avisar();
+}
+
+/**
+ * Envia o agendamento; se não houver conexão, guarda na fila e devolve o item pendente.
+ * Qualquer outro erro (conflito, sessão expirada...) sobe para a tela tratar na hora.
+ */
+export async function agendarOuEnfileirar(dados: Partial<AgendamentoData>): Promise<ResultadoAgendamento> {
+  try {
+    return { enviado: true, agendamento: await criarAgendamento(dados) };
+  } catch (error) {
+    const usuario = usuarioDaSessao();
+    if (!ehErroApi(error, 'rede') || !usuario) throw error;
+    const pendente: AgendamentoPendente = {
+      idLocal: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      usuario_id: usuario,
+      agendamento: dados,
+      criadoEm: new Date().toISOString(),
+      situacao: 'pendente',
+    };
+    try {
+      await salvar(pendente);
+    } catch {
+      throw error; // sem onde guardar: a tela mostra o erro de rede
+    }
+    return { enviado: false, pendente };
+  }
+}
+
+let reenvio: Promise<void> | null = null;
+
+// Regras de antecedência e horizonte atuais; sem conexão o erro de rede sobe e o reenvio para
+async function regrasDaAgenda(): Promise<ConfiguracaoAgenda> {
+  try {
+    return (await buscarConsulta(CHAVES.configuracoes, obterConfiguracoes)).agenda;
+  } catch (error) {
+    if (ehErroApi(error, 'rede')) throw error;
+    return (lerConsulta<Configuracoes>(CHAVES.configuracoes).dados ?? CONFIGURACOES_PADRAO).agenda;
+  }
+}
+
+/**
+ * Reenvia os pendentes do usuário logado, do mais antigo ao mais novo. Para no primeiro
+ * erro de rede (continua offline) ou se a sessão mudar no meio. Horários que passaram
+ * ou saíram da janela de agendamento enquanto o cliente estava offline não são enviados:
+ * ficam como conflito, igual a uma recusa do backend, para o cliente escolher outro.
+ * Chamadas simultâneas aguardam o mesmo reenvio.
+ */
+export function reenviarPendentes(): Promise<void> {
+  reenvio ??= (async () => {
+    // Itens de versões antigas, sem dono: não dá para saber de quem são, então não vão para ninguém
+    for (const item of await listarTodos()) {
+      if (!item.usuario_id) await descartarPendente(item.idLocal);
+    }
+    let agenda: ConfiguracaoAgenda | undefined;
+    for (const item of await listarPendentes()) {
+      if (item.usuario_id !== usuarioDaSessao()) break;
+      if (item.situacao !== 'pendente') continue;
+      try {
+        agenda ??= await regrasDaAgenda();
+        const invalido = validarInicio(item.agendamento.data ?? '', item.agendamento.horario ?? '', agenda);
+        if (invalido) throw new ErroDeValidacao(invalido);
+        await criarAgendamento(item.agendamento);
+        await descartarPendente(item.idLocal);
+      } catch (error) {
+        if (ehErroApi(error, 'rede')) break;
+        const conflito = ehErroApi(error, 'conflito', 'validacao');
+        await salvar({
+          ...item,
+          situacao: conflito ? 'conflito' : 'erro',
+          mensagem: mensagemDeErro(error, 'Não foi possível enviar o agendamento.'),
+        });
+      }
+    }
+  })().finally(() => {
+    reenvio = null;
+  });
+  return reenvio;
+}
+
+// Volta um item recusado para a fila (ex.: erro de sessão resolvido com novo login)
+export async function tentarNovamente(item: AgendamentoPendente) {
+  await salvar({ ...item, situacao: 'pendente', mensagem: undefined });
+  await reenviarPendentes();
+}
@@ -0,0 +1,63 @@
+import type { FaixaHorario, Feriado, HorarioFuncionamento } from "@/app/types/index";
+import type { Intervalo } from "@/app/utils/agenda";
+import { diaDaSemana, horaParaMinutos } from "@/app/utils/datas";
+import { feriadoNaData } from "@/app/utils/feriados";
+
+export const DIAS_SEMANA_ABREV = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+/**
+ * Faixas de atendimento de uma data. Precedência: exceção cadastrada para a data,
+ * depois feriado (fechado ou horário reduzido), depois o horário do dia da semana.
+ */
+export function faixasDoDia(dataISO: string, funcionamento: HorarioFuncionamento, feriados: Feriado[] = []): FaixaHorario[] {
+  if (!dataISO) return [];
+  if (funcionamento.excecoes[dataISO]) return funcionamento.excecoes[dataISO];
+  const feriado = feriadoNaData(dataISO, feriados);
+  if (feriado) return feriado.fechado ? [] : feriado.faixas || [];
+  return funcionamento.semana[diaDaSemana(dataISO)] || [];
+}
+
+// Expediente do dia como intervalos em minutos, prontos para o cálculo de disponibilidade
+export function expedienteDoDia(dataISO: string, funcionamento: HorarioFuncionamento, feriados: Feriado[] = []): Intervalo[] {
+  return faixasDoDia(dataISO, funcionamento, feriados)
+    .map((f) => ({ inicio: horaParaMinutos(f.inicio), fim: horaParaMinutos(f.fim) }))
+    .filter((i) => !Number.isNaN(i.inicio) && !Number.isNaN(i.fim) && i.fim > i.inicio)
+    .sort((a, b) => a.inicio - b.inicio);
+}
+
+export function estaFechado(dataISO: string, funcionamento: HorarioFuncionamento, feriados: Feriado[] = []): boolean {
+  return expedienteDoDia(dataISO, funcionamento, feriados).length === 0;
+}
+
+// "09:00" -> "9h", "12:30" -> "12h30"
+function formatarHora(hora: string): string {
+  const [h, m] = hora.split(':');
+  return `${Number(h)}h${m && m !== '00' ? m : ''}`;
+}
+
+export function descreverFaixas(faixas: FaixaHorario[]): string {
+  if (faixas.length === 0) return 'Fechado';
+  return faixas.map((f) => `${formatarHora(f.inicio)} às ${formatarHora(f.fim)}`).join(' e ');
+}
+
+/**
+ * Resumo da semana para exibição, agrupando dias seguidos com o mesmo horário.
+ * Ex.: ["Seg-Sex: 9h às 20h", "Sáb: 8h às 18h", "Dom: Fechado"]
+ */
+export function descreverFuncionamento(funcionamento: HorarioFuncionamento): string[] {
+  // Começa na segunda-feira e termina no domingo, como o público lê
+  const ordem = [1, 2, 3, 4, 5, 6, 0];
+  const grupos: { dias: number[]; texto: string }[] = [];
+  for (const dia of ordem) {
+    const texto = descreverFaixas(funcionamento.semana[dia] || []);
+    const ultimo = grupos[grupos.length - 1];
+    if (ultimo && ultimo.texto === texto) ultimo.dias.push(dia);
+    else grupos.push({ dias: [dia], texto });
+  }
+  return grupos.map(({ dias, texto }) => {
+    const nome = dias.length === 1
+      ? DIAS_SEMANA_ABREV[dias[0]]
+      : `${DIAS_SEMANA_ABREV[dias[0]]}-${DIAS_SEMANA_ABREV[dias[dias.length - 1]]}`;
+    return `${nome}: ${texto}`;
+  });
+}
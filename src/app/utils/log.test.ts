@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { redigir } from "@/app/utils/log";
+
+describe("redigir", () => {
+  it("oculta telefones e mantém o texto em volta", () => {
+    expect(redigir("(11) 98765-4321")).toBe("[oculto]");
+    expect(redigir("tel: (11) 98765-4321 ok")).toBe("tel: [oculto] ok");
+    expect(redigir("+55 11 98765-4321")).toBe("[oculto]");
+    expect(redigir("ligue 11987654321")).toBe("ligue [oculto]");
+  });
+
+  it("não confunde números colados em outro texto com telefone", () => {
+    expect(redigir("id abc11987654321")).toBe("id abc11987654321");
+  });
+
+  it("oculta e-mails, tokens e parâmetros sensíveis da URL", () => {
+    expect(redigir("cliente a@b.com")).toBe("cliente [oculto]");
+    expect(redigir("Bearer abc.def")).toBe("[oculto]");
+    expect(redigir("/api/agendamentos?usuario_id=42&data=2025-03-15")).toBe("/api/agendamentos?usuario_id=[oculto]&data=2025-03-15");
+  });
+
+  it("oculta chaves sensíveis em qualquer profundidade", () => {
+    expect(redigir({ user: { nome: "Ana", telefone: "11987654321", papeis: ["customer"] } })).toEqual({
+      user: { nome: "[oculto]", telefone: "[oculto]", papeis: ["customer"] },
+    });
+  });
+});
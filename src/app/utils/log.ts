@@ -0,0 +1,92 @@
+/**
+ * Logger do app: único lugar que chama `console` (ver SECURITY_LOGGING.md).
+ * Tudo o que é logado passa por `redigir`, que troca tokens, senhas, e-mails e telefones
+ * por "[oculto]". Em produção os métodos são vazios: nada sai no DevTools do cliente.
+ */
+
+export type NivelLog = 'debug' | 'info' | 'warn' | 'error';
+
+export interface Logger {
+  debug: (mensagem: string, ...dados: unknown[]) => void;
+  info: (mensagem: string, ...dados: unknown[]) => void;
+  warn: (mensagem: string, ...dados: unknown[]) => void;
+  error: (mensagem: string, ...dados: unknown[]) => void;
+}
+
+const NIVEIS: NivelLog[] = ['debug', 'info', 'warn', 'error'];
+
+// O Next troca NODE_ENV no build: em produção os ramos abaixo viram código morto
+const ATIVO = process.env.NODE_ENV !== 'production';
+
+// Nível mínimo em desenvolvimento (padrão: debug). Ex.: NEXT_PUBLIC_NIVEL_LOG=warn
+const NIVEL_MINIMO = Math.max(0, NIVEIS.indexOf(process.env.NEXT_PUBLIC_NIVEL_LOG as NivelLog));
+
+const OCULTO = '[oculto]';
+
+// Chaves cujo valor nunca é logado, em qualquer profundidade do objeto
+const CHAVE_SENSIVEL = /token|senha|password|authorization|secret|segredo|cookie|sess(ao|ion)|codigo|^code$|^state$|cpf|cart(ao|ão)|card|e-?mail|username|^tel$|telefone|phone|celular|whatsapp|^nome|^name$|usuario_id|user_?id/i;
+
+// Padrões sensíveis dentro de textos (mensagens, corpos de resposta, URLs). O primeiro
+// grupo de captura, quando existe, é o que vem antes do dado e fica no texto.
+// Sem lookbehind (`(?<!...)`): o Safari antes do 16.4 nem carrega o módulo.
+const PADROES_SENSIVEIS: RegExp[] = [
+  /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, // JWT
+  /\bBearer\s+[\w.~+/-]+=*/gi,
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, // e-mail
+  /(^|\W)(?:\+?55\s?)?\(?\d{2}\)?\s?9?\d{4}[-\s]?\d{4}(?!\w)/g, // telefone BR
+];
+const PARAMETROS_SENSIVEIS = /([?&](?:code|state|token|email|telefone|usuario_id)=)[^&#\s]*/gi;
+
+const PROFUNDIDADE_MAXIMA = 6;
+
+function redigirTexto(texto: string): string {
+  return PADROES_SENSIVEIS.reduce(
+    (acc, padrao) => acc.replace(padrao, (_, antes) => `${typeof antes === 'string' ? antes : ''}${OCULTO}`),
+    texto.replace(PARAMETROS_SENSIVEIS, `$1${OCULTO}`)
+  );
+}
+
+/**
+ * Cópia do valor segura para log: chaves sensíveis ficam "[oculto]" e textos passam pelos
+ * padrões de token, e-mail e telefone. Erros viram { name, message, tipo, status }.
+ */
+export function redigir(valor: unknown, profundidade = 0, vistos = new WeakSet<object>()): unknown {
+  if (typeof valor === 'string') return redigirTexto(valor);
+  if (valor === null || typeof valor !== 'object') return valor;
+  if (vistos.has(valor)) return '[circular]';
+  if (profundidade >= PROFUNDIDADE_MAXIMA) return '[...]';
+  vistos.add(valor);
+
+  if (valor instanceof Error) {
+    const { tipo, status } = valor as Error & { tipo?: string; status?: number };
+    return { name: valor.name, message: redigirTexto(valor.message), ...(tipo ? { tipo } : {}), ...(status != null ? { status } : {}) };
+  }
+  if (typeof Headers !== 'undefined' && valor instanceof Headers) {
+    return redigir(Object.fromEntries(valor.entries()), profundidade + 1, vistos);
+  }
+  if (Array.isArray(valor)) return valor.map((item) => redigir(item, profundidade + 1, vistos));
+
+  return Object.fromEntries(
+    Object.entries(valor).map(([chave, item]) => [
+      chave,
+      CHAVE_SENSIVEL.test(chave) && item != null && item !== '' ? OCULTO : redigir(item, profundidade + 1, vistos),
+    ])
+  );
+}
+
+const vazio = () => {};
+
+const LOGGER_VAZIO: Logger = { debug: vazio, info: vazio, warn: vazio, error: vazio };
+
+/**
+ * Logger com escopo, que aparece como prefixo: `criarLogger('api').debug('Status', 200)`
+ * mostra "[api] Status 200". Use um escopo por módulo.
+ */
+export function criarLogger(escopo: string): Logger {
+  if (!ATIVO) return LOGGER_VAZIO;
+  const emitir = (nivel: NivelLog) => (mensagem: string, ...dados: unknown[]) => {
+    if (NIVEIS.indexOf(nivel) < NIVEL_MINIMO) return;
+    console[nivel](`[${escopo}] ${redigirTexto(mensagem)}`, ...dados.map((dado) => redigir(dado)));
+  };
+  return { debug: emitir('debug'), info: emitir('info'), warn: emitir('warn'), error: emitir('error') };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { linkWhatsApp, numeroWhatsApp, preencherModelo } from "@/app/utils/mensagens";
+
+describe("preencherModelo", () => {
+  it("troca os marcadores pelos valores", () => {
+    expect(preencherModelo("Olá, {nome}! {data} às {horario}.", { nome: "Ana", data: "15/03/2025", horario: "14:30" }))
+      .toBe("Olá, Ana! 15/03/2025 às 14:30.");
+  });
+
+  it("remove linhas em que todos os marcadores ficaram vazios", () => {
+    expect(preencherModelo("Serviço: {servico}\nBarbeiro: {barbeiro}", { servico: "Corte" })).toBe("Serviço: Corte");
+  });
+
+  it("mantém linhas sem marcadores e as que têm algum valor", () => {
+    expect(preencherModelo("Até logo!\n{nome} - {servico}", { nome: "Ana" })).toBe("Até logo!\nAna - ");
+  });
+
+  it("deixa como estão marcadores desconhecidos, inclusive chaves herdadas do Object", () => {
+    expect(preencherModelo("{desconhecido} {constructor} {toString}", { nome: "Ana" })).toBe("{desconhecido} {constructor} {toString}");
+  });
+});
+
+describe("linkWhatsApp", () => {
+  it("completa o DDI do Brasil e codifica o texto", () => {
+    expect(numeroWhatsApp("(11) 98888-7777")).toBe("5511988887777");
+    expect(linkWhatsApp("11988887777", "Oi & tchau")).toBe("https://wa.me/5511988887777?text=Oi%20%26%20tchau");
+  });
+
+  it("mantém o DDI já informado e dispensa o texto", () => {
+    expect(numeroWhatsApp("+55 11 98888-7777")).toBe("5511988887777");
+    expect(linkWhatsApp("5511988887777")).toBe("https://wa.me/5511988887777");
+  });
+
+  it("não monta link sem um número completo", () => {
+    expect(numeroWhatsApp("")).toBe("");
+    expect(linkWhatsApp("")).toBeNull();
+    expect(linkWhatsApp("98888-7777")).toBeNull();
+  });
+});
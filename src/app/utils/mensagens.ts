@@ -0,0 +1,70 @@
+import type { TipoMensagem } from "@/app/types/index";
+
+// Marcadores aceitos nos modelos, com a descrição exibida no painel
+export const MARCADORES = {
+  nome: 'Nome do cliente',
+  telefone: 'Telefone do cliente',
+  servico: 'Serviço',
+  preco: 'Valor do serviço',
+  data: 'Data (dd/mm/aaaa)',
+  horario: 'Horário',
+  barbeiro: 'Barbeiro',
+  codigo: 'Código do agendamento',
+  motivo: 'Motivo do cancelamento',
+} as const;
+
+export type ValoresMensagem = Partial<Record<keyof typeof MARCADORES, string>>;
+
+export const TIPOS_MENSAGEM: Record<TipoMensagem, { titulo: string; descricao: string }> = {
+  contato: { titulo: 'Contato', descricao: 'Texto inicial do botão de WhatsApp do site.' },
+  agendamento: { titulo: 'Agendamento', descricao: 'Resumo que o cliente envia à barbearia depois de agendar.' },
+  cancelamento: { titulo: 'Cancelamento', descricao: 'Aviso enviado ao cliente quando a barbearia cancela.' },
+  lembrete: { titulo: 'Lembrete', descricao: 'Lembrete enviado ao cliente antes do horário.' },
+};
+
+// Valores de exemplo para a pré-visualização no painel
+export const VALORES_EXEMPLO: ValoresMensagem = {
+  nome: 'João Silva',
+  telefone: '(11) 98888-7777',
+  servico: 'Corte',
+  preco: 'R$ 35,00',
+  data: '15/03/2025',
+  horario: '14:30',
+  barbeiro: 'Carlos',
+  codigo: 'A1B2C3',
+  motivo: 'Barbeiro indisponível',
+};
+
+const MARCADOR = /\{(\w+)\}/g;
+
+/**
+ * Troca os marcadores {chave} pelos valores. Marcadores desconhecidos ficam como estão;
+ * linhas em que todos os marcadores ficaram vazios (ex.: sem barbeiro) são removidas.
+ */
+export function preencherModelo(modelo: string, valores: ValoresMensagem): string {
+  const valor = (chave: string) => (Object.hasOwn(MARCADORES, chave) ? valores[chave as keyof ValoresMensagem] || '' : `{${chave}}`);
+  return modelo
+    .split('\n')
+    .filter((linha) => {
+      const chaves = Array.from(linha.matchAll(MARCADOR), (m) => m[1]);
+      return chaves.length === 0 || chaves.some((c) => valor(c) !== '');
+    })
+    .map((linha) => linha.replace(MARCADOR, (_, chave) => valor(chave)))
+    .join('\n');
+}
+
+// Número de WhatsApp a partir de um telefone digitado; sem DDI, assume Brasil (55).
+// Vazio quando não dá um número completo (DDI + DDD + telefone)
+export function numeroWhatsApp(telefone: string): string {
+  const digitos = (telefone || '').replace(/\D/g, '');
+  const numero = digitos.length === 10 || digitos.length === 11 ? `55${digitos}` : digitos;
+  return numero.length >= 12 && numero.length <= 15 ? numero : '';
+}
+
+// null sem número válido (ex.: WhatsApp da barbearia ainda não informado no painel): a tela esconde o botão
+export function linkWhatsApp(numero: string, texto?: string): string | null {
+  const destino = numeroWhatsApp(numero);
+  if (!destino) return null;
+  const base = `https://wa.me/${destino}`;
+  return texto ? `${base}?text=${encodeURIComponent(texto)}` : base;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { Papel } from "@/app/types/index";
+import { isPapel, temPermissao, type Permissao } from "@/app/utils/permissoes";
+
+const pode = (papel: Papel, ...permissoes: Permissao[]) => permissoes.every((p) => temPermissao([papel], p));
+const naoPode = (papel: Papel, ...permissoes: Permissao[]) => permissoes.every((p) => !temPermissao([papel], p));
+
+describe("matriz de permissões", () => {
+  it("cliente só vê os próprios agendamentos", () => {
+    expect(pode("customer", "agendamentos.proprios")).toBe(true);
+    expect(naoPode("customer", "painel.acessar", "agendamentos.ver", "agendamentos.criar")).toBe(true);
+  });
+
+  it("barbeiro vê a agenda e muda status, sem editar nem gerenciar", () => {
+    expect(pode("barber", "painel.acessar", "agendamentos.ver", "agendamentos.status")).toBe(true);
+    expect(naoPode("barber", "agendamentos.criar", "agendamentos.editar", "agendamentos.cancelar", "servicos.gerenciar")).toBe(true);
+  });
+
+  it("recepção atende, mas não mexe nos cadastros", () => {
+    expect(pode("receptionist", "agendamentos.criar", "agendamentos.editar", "agendamentos.cancelar", "agendamentos.status")).toBe(true);
+    expect(naoPode("receptionist", "servicos.gerenciar", "barbeiros.gerenciar", "feriados.gerenciar", "configuracoes.gerenciar")).toBe(true);
+  });
+
+  it("só o dono cria administradores", () => {
+    expect(pode("manager", "servicos.gerenciar", "configuracoes.gerenciar")).toBe(true);
+    expect(naoPode("manager", "admins.criar")).toBe(true);
+    expect(pode("owner", "admins.criar", "configuracoes.gerenciar", "agendamentos.status")).toBe(true);
+  });
+
+  it("com vários papéis vale a soma, e sem papel nada", () => {
+    expect(temPermissao(["barber", "customer"], "agendamentos.ver")).toBe(true);
+    expect(temPermissao([], "agendamentos.proprios")).toBe(false);
+  });
+});
+
+describe("isPapel", () => {
+  it("aceita só os nomes exatos", () => {
+    expect(isPapel("owner")).toBe(true);
+    expect(isPapel("admin")).toBe(false);
+    expect(isPapel("Owner")).toBe(false);
+    expect(isPapel(undefined)).toBe(false);
+  });
+});
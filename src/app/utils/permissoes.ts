@@ -0,0 +1,58 @@
+import type { Papel } from "@/app/types/index";
+
+/**
+ * O que cada papel pode fazer. As telas checam permissões, nunca papéis: para mudar
+ * o acesso de alguém, basta mexer na matriz abaixo. O backend continua sendo quem
+ * decide de fato; aqui é só o que a interface mostra.
+ */
+
+export type Permissao =
+  | 'painel.acessar'
+  | 'agendamentos.ver' // agenda de todos os clientes
+  | 'agendamentos.criar' // pelo painel, em nome do cliente
+  | 'agendamentos.editar' // dados e remarcação
+  | 'agendamentos.cancelar'
+  | 'agendamentos.status' // confirmar, check-in, concluir, falta
+  | 'agendamentos.proprios' // área do cliente
+  | 'servicos.gerenciar'
+  | 'barbeiros.gerenciar'
+  | 'feriados.gerenciar'
+  | 'configuracoes.gerenciar'
+  | 'admins.criar';
+
+export const PAPEIS: Record<Papel, { rotulo: string }> = {
+  owner: { rotulo: 'Dono' },
+  manager: { rotulo: 'Gerente' },
+  barber: { rotulo: 'Barbeiro' },
+  receptionist: { rotulo: 'Recepção' },
+  customer: { rotulo: 'Cliente' },
+};
+
+const ATENDIMENTO: Permissao[] = [
+  'painel.acessar',
+  'agendamentos.ver',
+  'agendamentos.criar',
+  'agendamentos.editar',
+  'agendamentos.cancelar',
+  'agendamentos.status',
+];
+
+const GESTAO: Permissao[] = ['servicos.gerenciar', 'barbeiros.gerenciar', 'feriados.gerenciar', 'configuracoes.gerenciar'];
+
+const MATRIZ: Record<Papel, Permissao[]> = {
+  owner: [...ATENDIMENTO, ...GESTAO, 'admins.criar', 'agendamentos.proprios'],
+  manager: [...ATENDIMENTO, ...GESTAO, 'agendamentos.proprios'],
+  receptionist: [...ATENDIMENTO, 'agendamentos.proprios'],
+  barber: ['painel.acessar', 'agendamentos.ver', 'agendamentos.status', 'agendamentos.proprios'],
+  customer: ['agendamentos.proprios'],
+};
+
+export const LISTA_PAPEIS = Object.keys(PAPEIS) as Papel[];
+
+export function isPapel(v: unknown): v is Papel {
+  return typeof v === 'string' && (LISTA_PAPEIS as string[]).includes(v);
+}
+
+export function temPermissao(papeis: readonly Papel[], permissao: Permissao): boolean {
+  return papeis.some((papel) => MATRIZ[papel].includes(permissao));
+}
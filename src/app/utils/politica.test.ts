@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { AgendamentoData, PoliticaAgendamento } from "@/app/types/index";
+import { avaliarCancelamento, avaliarRemarcacao, descreverCancelamento, descreverPolitica, remarcacoesDoCliente } from "@/app/utils/politica";
+
+const politica: PoliticaAgendamento = { antecedenciaMinimaHoras: 2, maxRemarcacoes: 1, janelaCancelamentoTardioHoras: 24 };
+const agora = new Date("2025-03-15T12:00:00Z"); // 15/03, 09:00 em São Paulo
+const agendamento = (dados: Partial<AgendamentoData>): AgendamentoData => ({
+  nome: "Ana",
+  telefone: "11987654321",
+  servico: "s1",
+  data: "2025-03-15",
+  horario: "12:00",
+  status: "confirmado",
+  ...dados,
+});
+
+describe("avaliarCancelamento", () => {
+  it("permite com antecedência e marca como tardio dentro da janela", () => {
+    expect(avaliarCancelamento(agendamento({}), politica, agora)).toEqual({ permitido: true, tardio: true });
+    expect(avaliarCancelamento(agendamento({ data: "2025-03-17" }), politica, agora)).toEqual({ permitido: true, tardio: false });
+  });
+
+  it("recusa perto do horário, depois dele e fora dos status em aberto", () => {
+    expect(avaliarCancelamento(agendamento({ horario: "10:00" }), politica, agora).motivo)
+      .toBe("Só é possível cancelar pelo site até 2 horas antes do horário. Fale com a barbearia.");
+    expect(avaliarCancelamento(agendamento({ horario: "08:00" }), politica, agora).motivo).toBe("Este horário já passou.");
+    expect(avaliarCancelamento(agendamento({ status: "concluido" }), politica, agora).permitido).toBe(false);
+  });
+});
+
+describe("avaliarRemarcacao", () => {
+  const remarcado = (por: "cliente" | "admin") => agendamento({
+    historico: [{ acao: "remarcacao", por, em: "2025-03-10T12:00:00.000Z", de: { data: "2025-03-14", horario: "09:00" } }],
+  });
+
+  it("conta só as remarcações do próprio cliente", () => {
+    expect(remarcacoesDoCliente(remarcado("admin"))).toBe(0);
+    expect(avaliarRemarcacao(remarcado("admin"), politica, agora).permitido).toBe(true);
+    expect(avaliarRemarcacao(remarcado("cliente"), politica, agora).motivo).toMatch(/limite de remarcações/);
+  });
+
+  it("explica quando a barbearia não aceita remarcação pelo site", () => {
+    expect(avaliarRemarcacao(agendamento({}), { ...politica, maxRemarcacoes: 0 }, agora).motivo)
+      .toBe("Agendamentos não podem ser remarcados pelo site. Fale com a barbearia.");
+  });
+});
+
+describe("descreverPolitica", () => {
+  it("descreve as regras em linguagem simples", () => {
+    expect(descreverPolitica(politica)).toEqual([
+      "Cancelamentos e remarcações pelo site até 2 horas antes do horário.",
+      "Cada agendamento pode ser remarcado até 1 vez.",
+      "Cancelamentos com menos de 24 horas de antecedência ficam registrados como tardios.",
+    ]);
+  });
+
+  it("fala em minutos abaixo de uma hora e omite a janela de tardio quando não se aplica", () => {
+    expect(descreverPolitica({ antecedenciaMinimaHoras: 0.5, maxRemarcacoes: 2, janelaCancelamentoTardioHoras: 0 })).toEqual([
+      "Cancelamentos e remarcações pelo site até 30 minutos antes do horário.",
+      "Cada agendamento pode ser remarcado até 2 vezes.",
+    ]);
+  });
+});
+
+describe("descreverCancelamento", () => {
+  it("usa o último cancelamento do histórico, com a data de São Paulo", () => {
+    expect(descreverCancelamento({
+      historico: [{ acao: "cancelamento", por: "admin", nome: "Lopes", em: "2025-03-13T01:00:00.000Z", tardio: true, motivo: "barbeiro doente" }],
+    })).toBe("Cancelado pela barbearia (Lopes) em 12/03/2025 (tardio): barbeiro doente");
+    expect(descreverCancelamento({ historico: [] })).toBe("");
+  });
+});
@@ -0,0 +1,82 @@
+import type { AgendamentoData, PoliticaAgendamento, RegistroAlteracao } from "@/app/types/index";
+import { statusEmAberto } from "@/app/utils/status";
+import { formatarDataHora, minutosAte } from "@/app/utils/datas";
+
+export interface AvaliacaoPolitica {
+  permitido: boolean;
+  tardio: boolean;
+  motivo?: string; // por que não é permitido, para exibir ao cliente
+}
+
+// "2 horas", "1 hora", "30 minutos"
+function formatarHoras(horas: number): string {
+  if (horas > 0 && horas < 1) return `${Math.round(horas * 60)} minutos`;
+  return `${horas} ${horas === 1 ? 'hora' : 'horas'}`;
+}
+
+export function horasAteOAgendamento(ag: Pick<AgendamentoData, 'data' | 'horario'>, agora: Date = new Date()): number {
+  return minutosAte(ag.data, ag.horario, agora) / 60;
+}
+
+// Só as remarcações do próprio cliente contam para o limite
+export function remarcacoesDoCliente(ag: Pick<AgendamentoData, 'historico'>): number {
+  return (ag.historico || []).filter((r) => r.acao === 'remarcacao' && r.por === 'cliente').length;
+}
+
+function verificarAntecedencia(ag: AgendamentoData, politica: PoliticaAgendamento, agora: Date, acao: string): string | undefined {
+  if (!statusEmAberto(ag.status || 'confirmado')) return 'Este agendamento não pode mais ser alterado.';
+  const horas = horasAteOAgendamento(ag, agora);
+  if (horas <= 0) return 'Este horário já passou.';
+  if (horas < politica.antecedenciaMinimaHoras) {
+    return `Só é possível ${acao} pelo site até ${formatarHoras(politica.antecedenciaMinimaHoras)} antes do horário. Fale com a barbearia.`;
+  }
+  return undefined;
+}
+
+export function avaliarCancelamento(ag: AgendamentoData, politica: PoliticaAgendamento, agora: Date = new Date()): AvaliacaoPolitica {
+  const motivo = verificarAntecedencia(ag, politica, agora, 'cancelar');
+  if (motivo) return { permitido: false, tardio: false, motivo };
+  return { permitido: true, tardio: horasAteOAgendamento(ag, agora) < politica.janelaCancelamentoTardioHoras };
+}
+
+export function avaliarRemarcacao(ag: AgendamentoData, politica: PoliticaAgendamento, agora: Date = new Date()): AvaliacaoPolitica {
+  const motivo = verificarAntecedencia(ag, politica, agora, 'remarcar');
+  if (motivo) return { permitido: false, tardio: false, motivo };
+  if (remarcacoesDoCliente(ag) >= politica.maxRemarcacoes) {
+    return {
+      permitido: false,
+      tardio: false,
+      motivo: politica.maxRemarcacoes === 0
+        ? 'Agendamentos não podem ser remarcados pelo site. Fale com a barbearia.'
+        : 'Este agendamento já atingiu o limite de remarcações. Fale com a barbearia.',
+    };
+  }
+  return { permitido: true, tardio: false };
+}
+
+// Regras em linguagem simples, para exibir ao cliente
+export function descreverPolitica(politica: PoliticaAgendamento): string[] {
+  const regras = [
+    `Cancelamentos e remarcações pelo site até ${formatarHoras(politica.antecedenciaMinimaHoras)} antes do horário.`,
+    politica.maxRemarcacoes === 0
+      ? 'Agendamentos não podem ser remarcados pelo site.'
+      : `Cada agendamento pode ser remarcado até ${politica.maxRemarcacoes} ${politica.maxRemarcacoes === 1 ? 'vez' : 'vezes'}.`,
+  ];
+  if (politica.janelaCancelamentoTardioHoras > politica.antecedenciaMinimaHoras) {
+    regras.push(`Cancelamentos com menos de ${formatarHoras(politica.janelaCancelamentoTardioHoras)} de antecedência ficam registrados como tardios.`);
+  }
+  return regras;
+}
+
+export function registrarAlteracao(ag: AgendamentoData, registro: Omit<RegistroAlteracao, 'em'>): RegistroAlteracao[] {
+  return [...(ag.historico || []), { ...registro, em: new Date().toISOString() }];
+}
+
+// Ex.: "Cancelado pelo cliente em 12/03/2025 (tardio): imprevisto no trabalho"
+export function descreverCancelamento(ag: Pick<AgendamentoData, 'historico'>): string {
+  const registro = [...(ag.historico || [])].reverse().find((r) => r.acao === 'cancelamento');
+  if (!registro) return '';
+  const quem = registro.por === 'admin' ? `pela barbearia${registro.nome ? ` (${registro.nome})` : ''}` : 'pelo cliente';
+  const quando = formatarDataHora(registro.em).slice(0, 10);
+  return `Cancelado ${quem} em ${quando}${registro.tardio ? ' (tardio)' : ''}${registro.motivo ? `: ${registro.motivo}` : ''}`;
+}
@@ -0,0 +1,25 @@
+import type { Servico } from "@/app/types/index";
+
+// Ordena pela ordem de exibição definida no painel e, em empate, pelo nome
+export function ordenarServicos(servicos: Servico[]): Servico[] {
+  return [...servicos].sort((a, b) => a.ordem - b.ordem || a.nome.localeCompare(b.nome, 'pt-BR'));
+}
+
+export function formatarPreco(valor: number): string {
+  return valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+}
+
+// Preço cobrado hoje: o promocional, quando houver e for menor que o normal
+export function precoVigente(servico: Servico): number {
+  const promo = servico.preco_promocional;
+  return promo != null && promo > 0 && promo < servico.preco ? promo : servico.preco;
+}
+
+export function emPromocao(servico: Servico): boolean {
+  return precoVigente(servico) < servico.preco;
+}
+
+export function nomeDoServico(servicos: Servico[], id?: string): string {
+  if (!id) return '';
+  return servicos.find((s) => s.id === id)?.nome || id;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { comecarEspera, estadoDoServidor, marcarIndisponivel, marcarPronto } from "@/app/utils/servidor";
+
+describe("estado do servidor", () => {
+  it("fica acordando até a última requisição em espera terminar", () => {
+    const primeira = comecarEspera();
+    const segunda = comecarEspera();
+    marcarPronto(); // uma resposta rápida não encerra a espera da outra
+    primeira();
+    expect(estadoDoServidor()).toBe("acordando");
+    segunda();
+    expect(estadoDoServidor()).toBe("pronto");
+  });
+
+  it("encerrar a mesma espera duas vezes não desconta outra requisição", () => {
+    const primeira = comecarEspera();
+    const segunda = comecarEspera();
+    primeira();
+    primeira();
+    expect(estadoDoServidor()).toBe("acordando");
+    segunda();
+    expect(estadoDoServidor()).toBe("pronto");
+  });
+
+  it("mostra indisponível depois que a espera acaba sem resposta", () => {
+    const espera = comecarEspera();
+    marcarIndisponivel();
+    expect(estadoDoServidor()).toBe("acordando");
+    espera();
+    expect(estadoDoServidor()).toBe("indisponivel");
+    marcarPronto();
+    expect(estadoDoServidor()).toBe("pronto");
+  });
+});
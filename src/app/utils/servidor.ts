@@ -0,0 +1,62 @@
+/**
+ * Estado da conexão com o backend. A instância gratuita do Render dorme quando fica
+ * parada, e a primeira requisição pode levar 30s ou mais: enquanto isso o site mostra
+ * "acordando o servidor" em vez de parecer travado. Quem atualiza é o `apiRequest`.
+ */
+
+export type EstadoServidor =
+  | 'pronto'
+  | 'acordando' // requisição demorando ou sendo repetida
+  | 'indisponivel'; // desistimos depois de todas as tentativas; volta a 'pronto' na próxima resposta
+
+let estado: EstadoServidor = 'pronto';
+const ouvintes = new Set<() => void>();
+
+// Requisições que estão demorando ou sendo repetidas agora: o aviso só some quando todas acabam
+let esperando = 0;
+let indisponivel = false;
+
+function atualizar() {
+  const novo: EstadoServidor = esperando > 0 ? 'acordando' : indisponivel ? 'indisponivel' : 'pronto';
+  if (novo === estado) return;
+  estado = novo;
+  ouvintes.forEach((ouvinte) => ouvinte());
+}
+
+/**
+ * Marca uma requisição como esperando o servidor. Devolve a função que encerra a espera
+ * (chamar quando a requisição terminar, com sucesso ou não; chamadas repetidas não contam).
+ */
+export function comecarEspera(): () => void {
+  let ativa = true;
+  esperando++;
+  atualizar();
+  return () => {
+    if (!ativa) return;
+    ativa = false;
+    esperando--;
+    atualizar();
+  };
+}
+
+export const marcarPronto = () => {
+  indisponivel = false;
+  atualizar();
+};
+
+export const marcarIndisponivel = () => {
+  indisponivel = true;
+  atualizar();
+};
+
+export function estadoDoServidor(): EstadoServidor {
+  return estado;
+}
+
+// Assinatura no formato do useSyncExternalStore; devolve a função que cancela
+export function assinarEstadoServidor(ouvinte: () => void): () => void {
+  ouvintes.add(ouvinte);
+  return () => {
+    ouvintes.delete(ouvinte);
+  };
+}
@@ -0,0 +1,128 @@
+import type { User } from "@/app/types/index";
+import { usuarioSalvo } from "@/app/utils/contrato";
+import { limparConsultas } from "@/app/utils/consultas";
+
+/**
+ * Sessão do usuário guardada no navegador. Único código que lê e grava `user` e `token`
+ * no localStorage: as telas usam o `useAuth` (components/AuthProvider) e o `apiRequest`
+ * pega o token por `tokenDaSessao`. Mudanças feitas em outra aba chegam pelo evento
+ * `storage` (ver `recarregarSessao`).
+ */
+
+export interface EstadoSessao {
+  usuario: User | null;
+  token: string | null;
+  pronto: boolean; // false até ler o storage (no servidor e na hidratação)
+  expirada: boolean; // o backend recusou o token (401) ou passou do `exp`; os dados seguem até o novo login
+}
+
+const CHAVE_USUARIO = 'user';
+const CHAVE_TOKEN = 'token';
+const CHAVE_TOKEN_ANTIGA = 'authToken'; // gravada por versões antigas; só lida e apagada
+
+export const CHAVES_SESSAO = [CHAVE_USUARIO, CHAVE_TOKEN, CHAVE_TOKEN_ANTIGA];
+
+export const SESSAO_VAZIA: EstadoSessao = { usuario: null, token: null, pronto: false, expirada: false };
+
+let estado: EstadoSessao | null = null;
+const ouvintes = new Set<() => void>();
+
+function lerDoStorage(): EstadoSessao {
+  try {
+    return {
+      usuario: usuarioSalvo(localStorage.getItem(CHAVE_USUARIO)),
+      token: localStorage.getItem(CHAVE_TOKEN) || localStorage.getItem(CHAVE_TOKEN_ANTIGA),
+      pronto: true,
+      expirada: false,
+    };
+  } catch {
+    return { usuario: null, token: null, pronto: true, expirada: false }; // storage bloqueado (ex.: modo privado)
+  }
+}
+
+function definir(novo: EstadoSessao) {
+  // Saiu ou trocou de conta (nesta aba ou em outra): o cache é da sessão anterior
+  const trocouUsuario = (estado?.usuario?.id ?? null) !== (novo.usuario?.id ?? null);
+  estado = novo;
+  if (trocouUsuario) limparConsultas();
+  ouvintes.forEach((ouvinte) => ouvinte());
+}
+
+// Sempre o mesmo objeto enquanto nada muda (exigência do useSyncExternalStore)
+export function sessaoAtual(): EstadoSessao {
+  if (typeof window === 'undefined') return SESSAO_VAZIA;
+  estado ??= lerDoStorage();
+  return estado;
+}
+
+export function tokenDaSessao(): string | null {
+  return sessaoAtual().token;
+}
+
+// Assinatura no formato do useSyncExternalStore; devolve a função que cancela
+export function assinarSessao(ouvinte: () => void): () => void {
+  ouvintes.add(ouvinte);
+  return () => {
+    ouvintes.delete(ouvinte);
+  };
+}
+
+// Relê o storage (outra aba entrou ou saiu) e avisa quem assina, se algo mudou
+export function recarregarSessao() {
+  const novo = lerDoStorage();
+  const atual = sessaoAtual();
+  if (novo.token === atual.token && JSON.stringify(novo.usuario) === JSON.stringify(atual.usuario)) return;
+  definir(novo);
+}
+
+// Chamado pelo apiRequest num 401 de rota autenticada; a tela decide quando pedir novo login
+export function marcarSessaoExpirada() {
+  const atual = sessaoAtual();
+  if (!atual.token || atual.expirada) return;
+  definir({ ...atual, expirada: true });
+}
+
+export function salvarSessao(usuario: User, token: string) {
+  try {
+    localStorage.setItem(CHAVE_USUARIO, JSON.stringify(usuario));
+    localStorage.setItem(CHAVE_TOKEN, token);
+    localStorage.removeItem(CHAVE_TOKEN_ANTIGA);
+  } catch {
+    // sem storage a sessão vale só nesta aba
+  }
+  definir({ usuario, token, pronto: true, expirada: false });
+}
+
+export function atualizarUsuarioSalvo(dados: Partial<User>) {
+  const { usuario, token } = sessaoAtual();
+  if (!usuario || !token) return;
+  salvarSessao({ ...usuario, ...dados }, token);
+}
+
+export function encerrarSessao() {
+  try {
+    CHAVES_SESSAO.forEach((chave) => localStorage.removeItem(chave));
+  } catch {
+    // nada a apagar
+  }
+  definir({ usuario: null, token: null, pronto: true, expirada: false });
+}
+
+// Claims do JWT (sem validar a assinatura: serve só para a interface, quem decide é o backend)
+export function claimsDoToken(token: string | null): Record<string, any> | null {
+  const partes = token?.split('.') ?? [];
+  if (partes.length < 2) return null;
+  try {
+    const json = atob(partes[1].replace(/-/g, '+').replace(/_/g, '/'));
+    return json ? JSON.parse(json) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Token sem `exp` (ou ilegível) conta como válido; o backend responde 401 se não for
+export function tokenExpirado(token: string | null): boolean {
+  if (!token) return true;
+  const exp = Number(claimsDoToken(token)?.exp);
+  return !!exp && exp <= Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { isStatusAgendamento, LISTA_STATUS, podeTransicionar, proximosStatus, statusEmAberto, statusFinal } from "@/app/utils/status";
+
+describe("isStatusAgendamento", () => {
+  it("aceita os status conhecidos", () => {
+    expect(isStatusAgendamento("pendente")).toBe(true);
+    expect(isStatusAgendamento("nao_compareceu")).toBe(true);
+  });
+
+  it("recusa chaves herdadas do Object e valores que não são texto", () => {
+    expect(isStatusAgendamento("toString")).toBe(false);
+    expect(isStatusAgendamento("constructor")).toBe(false);
+    expect(isStatusAgendamento("__proto__")).toBe(false);
+    expect(isStatusAgendamento(undefined)).toBe(false);
+    expect(isStatusAgendamento(1)).toBe(false);
+  });
+});
+
+describe("transições de status", () => {
+  it("segue o fluxo do atendimento", () => {
+    expect(podeTransicionar("pendente", "confirmado")).toBe(true);
+    expect(podeTransicionar("confirmado", "em_atendimento")).toBe(true);
+    expect(podeTransicionar("em_atendimento", "concluido")).toBe(true);
+  });
+
+  it("permite check-in de quem não confirmou, mas não volta atrás", () => {
+    expect(podeTransicionar("pendente", "em_atendimento")).toBe(true);
+    expect(podeTransicionar("confirmado", "pendente")).toBe(false);
+    expect(podeTransicionar("em_atendimento", "cancelado")).toBe(false);
+  });
+
+  it("status finais não saem do lugar", () => {
+    for (const final of ["concluido", "nao_compareceu", "cancelado"] as const) {
+      expect(statusFinal(final)).toBe(true);
+      expect(proximosStatus(final)).toEqual([]);
+      expect(LISTA_STATUS.some((s) => podeTransicionar(final, s))).toBe(false);
+    }
+  });
+
+  it("só pendente e confirmado podem ser cancelados ou remarcados pelo cliente", () => {
+    expect(LISTA_STATUS.filter(statusEmAberto)).toEqual(["pendente", "confirmado"]);
+  });
+});
@@ -0,0 +1,54 @@
+import type { StatusAgendamento } from "@/app/types/index";
+
+export const STATUS_AGENDAMENTO: Record<StatusAgendamento, { rotulo: string; classe: string }> = {
+  pendente: { rotulo: 'Pendente', classe: 'bg-yellow-100 text-yellow-800' },
+  confirmado: { rotulo: 'Confirmado', classe: 'bg-blue-100 text-blue-800' },
+  em_atendimento: { rotulo: 'Em atendimento', classe: 'bg-purple-100 text-purple-800' },
+  concluido: { rotulo: 'Concluído', classe: 'bg-green-100 text-green-800' },
+  nao_compareceu: { rotulo: 'Não compareceu', classe: 'bg-gray-200 text-gray-700' },
+  cancelado: { rotulo: 'Cancelado', classe: 'bg-red-100 text-red-800' },
+};
+
+export const LISTA_STATUS = Object.keys(STATUS_AGENDAMENTO) as StatusAgendamento[];
+
+/**
+ * Transições permitidas a partir de cada status. Concluído, não compareceu e
+ * cancelado são finais. O check-in (em atendimento) vale também para quem não confirmou.
+ */
+const TRANSICOES: Record<StatusAgendamento, StatusAgendamento[]> = {
+  pendente: ['confirmado', 'em_atendimento', 'nao_compareceu', 'cancelado'],
+  confirmado: ['em_atendimento', 'nao_compareceu', 'cancelado'],
+  em_atendimento: ['concluido'],
+  concluido: [],
+  nao_compareceu: [],
+  cancelado: [],
+};
+
+// Rótulo dos botões de ação rápida no painel
+export const ACAO_STATUS: Partial<Record<StatusAgendamento, string>> = {
+  confirmado: 'Confirmar',
+  em_atendimento: 'Check-in',
+  concluido: 'Concluir',
+  nao_compareceu: 'Não compareceu',
+};
+
+export function podeTransicionar(de: StatusAgendamento, para: StatusAgendamento): boolean {
+  return TRANSICOES[de].includes(para);
+}
+
+export function proximosStatus(status: StatusAgendamento): StatusAgendamento[] {
+  return TRANSICOES[status];
+}
+
+export function statusFinal(status: StatusAgendamento): boolean {
+  return TRANSICOES[status].length === 0;
+}
+
+// Ainda pode ser cancelado ou remarcado
+export function statusEmAberto(status: StatusAgendamento): boolean {
+  return status === 'pendente' || status === 'confirmado';
+}
+
+export function isStatusAgendamento(v: unknown): v is StatusAgendamento {
+  return typeof v === 'string' && Object.hasOwn(STATUS_AGENDAMENTO, v);
+}